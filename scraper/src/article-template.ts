@@ -0,0 +1,99 @@
+/**
+ * Spotlight articles without a language model
+ * Renders an artist's facts (artist-facts.ts) into the same markdown the
+ * generated articles use. Each section is left out when there's nothing
+ * to put in it, so a new name with one gig gets a short, accurate page
+ * rather than filler.
+ */
+import type { ArtistFacts } from "./artist-facts.js";
+
+type Section = (facts: ArtistFacts, today: string) => string | null;
+
+function formatDate(date: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function list(items: string[]): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+function eventLine(event: ArtistFacts["events"][number]): string {
+  const where = [event.venue, event.city].filter(Boolean).join(", ");
+  return (
+    `- **[${event.name}](/events/${event.slug})**` +
+    ` — ${event.date ? formatDate(event.date) : "date TBA"}` +
+    (where ? `, ${where}` : "") +
+    (event.headliner ? " (headlining)" : "")
+  );
+}
+
+// Undated events are announced but not scheduled yet: they count as upcoming
+const isUpcoming = (event: ArtistFacts["events"][number], today: string) =>
+  !event.date || event.date >= today;
+
+const intro: Section = (facts, today) => {
+  const next = facts.events.find((e) => isUpcoming(e, today));
+  if (next) {
+    const bringing = facts.genres.length > 0 ? `brings ${list(facts.genres.slice(0, 2))} to` : "is coming to";
+    return `**${facts.name}** ${bringing} Costa Rica: next up is **${next.name}**${next.date ? ` on ${formatDate(next.date)}` : ""}.`;
+  }
+  const listen = facts.featuredSets.length + facts.links.length > 0;
+  if (facts.events.length > 0) {
+    const times = facts.events.length === 1 ? "before" : `${facts.events.length} times`;
+    return `**${facts.name}** has played Costa Rica ${times}.${listen ? " Here's where to listen until they're back." : ""}`;
+  }
+  return `**${facts.name}** is on the Festival Pulse radar.${listen ? " Here's where to listen." : ""}`;
+};
+
+const upcomingShows: Section = (facts, today) => {
+  const upcoming = facts.events.filter((e) => isUpcoming(e, today));
+  if (upcoming.length === 0) return null;
+  return ["## Upcoming Shows", "", ...upcoming.map(eventLine)].join("\n");
+};
+
+const pastAppearances: Section = (facts, today) => {
+  const past = facts.events.filter((e) => !isUpcoming(e, today)).reverse();
+  if (past.length === 0) return null;
+  return ["## Past Appearances", "", ...past.map(eventLine)].join("\n");
+};
+
+const sound: Section = (facts) => {
+  if (facts.genres.length === 0) return null;
+  return ["## Sound", "", `${facts.name} is filed under ${list(facts.genres)}.`].join("\n");
+};
+
+const sharedBills: Section = (facts) => {
+  if (facts.coBilled.length === 0) return null;
+  return [
+    "## Shared Bills",
+    "",
+    `On Costa Rica lineups, ${facts.name} has shared the bill with ${list(facts.coBilled.map((n) => `**${n}**`))}.`,
+  ].join("\n");
+};
+
+const featuredSets: Section = (facts) => {
+  if (facts.featuredSets.length === 0) return null;
+  return ["## Featured Sets", "", ...facts.featuredSets.map((s) => `- [${s.title}](${s.url})`)].join("\n");
+};
+
+const links: Section = (facts) => {
+  if (facts.links.length === 0) return null;
+  return ["## Links", "", ...facts.links.map((l) => `- [${l.label}](${l.url})`)].join("\n");
+};
+
+const SECTIONS: Section[] = [intro, upcomingShows, pastAppearances, sound, sharedBills, featuredSets, links];
+
+/** The spotlight markdown for an artist, from their facts alone. */
+export function renderTemplateArticle(facts: ArtistFacts, today = new Date().toISOString().split("T")[0]): string {
+  return [
+    `# ${facts.name} — Artist Spotlight`,
+    ...SECTIONS.map((section) => section(facts, today)).filter((s): s is string => s !== null),
+  ].join("\n\n");
+}
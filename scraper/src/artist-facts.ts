@@ -0,0 +1,111 @@
+/**
+ * What the database knows about an artist, gathered in one place for the
+ * article writers: the language-model prompt (generate-articles.ts) and
+ * the template (article-template.ts) work from the same facts.
+ */
+import { db } from "./db.js";
+import type { VideoClip } from "./media/index.js";
+import { and, asc, desc, eq, inArray, isNull, ne, or } from "drizzle-orm";
+import {
+  artists,
+  artistSpotlights,
+  festivalLineups,
+  festivals,
+  venues,
+} from "../../web/src/db/schema.js";
+
+const MAX_CO_BILLED = 8;
+
+type ArtistRow = typeof artists.$inferSelect;
+
+export interface ArtistFacts {
+  id: string;
+  name: string;
+  slug: string;
+  genres: string[];
+  events: {
+    name: string;
+    slug: string;
+    date: string | null; // YYYY-MM-DD
+    venue: string | null;
+    city: string | null;
+    headliner: boolean;
+  }[]; // oldest first
+  coBilled: string[]; // others on the same lineups, headliners first
+  featuredSets: { title: string; url: string }[];
+  links: { label: string; url: string }[];
+}
+
+/**
+ * Collects an artist's facts. Featured sets come from their spotlight,
+ * unless `clips` is given — enrichment passes the ones it's about to save.
+ * Cancelled events are left out, along with who was billed at them.
+ */
+export async function loadArtistFacts(artist: ArtistRow, clips?: VideoClip[]): Promise<ArtistFacts> {
+  const events = await db
+    .select({
+      festivalId: festivals.id,
+      name: festivals.name,
+      slug: festivals.slug,
+      date: festivals.startDate,
+      venue: venues.name,
+      city: venues.city,
+      headliner: festivalLineups.isHeadliner,
+    })
+    .from(festivalLineups)
+    .innerJoin(festivals, eq(festivalLineups.festivalId, festivals.id))
+    .leftJoin(venues, eq(festivals.venueId, venues.id))
+    .where(
+      and(
+        eq(festivalLineups.artistId, artist.id),
+        or(isNull(festivals.status), ne(festivals.status, "cancelled"))
+      )
+    )
+    .orderBy(asc(festivals.startDate));
+
+  const billed =
+    events.length > 0
+      ? await db
+          .select({ name: artists.name })
+          .from(festivalLineups)
+          .innerJoin(artists, eq(festivalLineups.artistId, artists.id))
+          .where(
+            and(
+              inArray(festivalLineups.festivalId, events.map((e) => e.festivalId)),
+              ne(festivalLineups.artistId, artist.id)
+            )
+          )
+          .orderBy(desc(festivalLineups.isHeadliner), asc(artists.name))
+      : [];
+
+  if (!clips) {
+    const [spotlight] = await db
+      .select({ videoClips: artistSpotlights.videoClips })
+      .from(artistSpotlights)
+      .where(eq(artistSpotlights.artistId, artist.id))
+      .limit(1);
+    clips = (spotlight?.videoClips || []) as VideoClip[];
+  }
+
+  const links = [
+    { label: "Resident Advisor", url: artist.raUrl },
+    { label: "Spotify", url: artist.spotifyUrl },
+    { label: "SoundCloud", url: artist.soundcloudUrl },
+    { label: "YouTube", url: artist.youtubeUrl },
+    { label: "Instagram", url: artist.instagramUrl },
+  ].filter((l): l is { label: string; url: string } => Boolean(l.url));
+
+  return {
+    id: artist.id,
+    name: artist.name,
+    slug: artist.slug,
+    genres: (artist.genres as string[]) || [],
+    events: events.map(({ festivalId: _festivalId, headliner, ...e }) => ({
+      ...e,
+      headliner: Boolean(headliner),
+    })),
+    coBilled: [...new Set(billed.map((b) => b.name))].slice(0, MAX_CO_BILLED),
+    featuredSets: clips.map((clip) => ({ title: clip.title, url: clip.sourceUrl })),
+    links,
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Event classification
+ * Tells real festivals apart from club nights, concerts and day parties
+ * using the event's span, start/end times, lineup size and title.
+ */
+
+export const EVENT_TYPES = ["festival", "club_night", "concert", "day_party"] as const;
+export type EventType = (typeof EVENT_TYPES)[number];
+
+export interface ClassifiableEvent {
+  title: string;
+  startDate: string | null;
+  endDate: string | null;
+  startTime: string | null; // "23:00"
+  endTime: string | null;
+  artistCount: number;
+}
+
+const FESTIVAL_WORDS = /\b(festival|fest|open air|weekender|gathering)\b/i;
+const DAY_PARTY_WORDS = /\b(sunset|day ?party|tardeo|brunch|pool ?party|daytime|boat ?party)\b/i;
+const CONCERT_WORDS = /\b(concert|concierto|in concert|live band|tour|album launch)\b/i;
+
+// Lineups this long only happen at festivals
+const FESTIVAL_LINEUP_SIZE = 15;
+
+function hour(time: string | null): number | null {
+  if (!time) return null;
+  const h = parseInt(time.split(":")[0], 10);
+  return isNaN(h) ? null : h;
+}
+
+function spanDays(startDate: string | null, endDate: string | null): number {
+  if (!startDate || !endDate) return 1;
+  const ms =
+    new Date(`${endDate}T12:00:00Z`).getTime() - new Date(`${startDate}T12:00:00Z`).getTime();
+  return Math.round(ms / 86_400_000) + 1;
+}
+
+export function classifyEvent(event: ClassifiableEvent): EventType {
+  const days = spanDays(event.startDate, event.endDate);
+  if (days >= 2) return "festival";
+  if (FESTIVAL_WORDS.test(event.title)) return "festival";
+  if (event.artistCount >= FESTIVAL_LINEUP_SIZE) return "festival";
+
+  const startHour = hour(event.startTime);
+  const endHour = hour(event.endTime);
+
+  if (DAY_PARTY_WORDS.test(event.title)) return "day_party";
+  // Starts in daylight and wraps up before midnight
+  if (
+    startHour !== null &&
+    startHour >= 9 &&
+    startHour < 17 &&
+    (endHour === null || (endHour > startHour && endHour <= 23))
+  ) {
+    return "day_party";
+  }
+
+  if (CONCERT_WORDS.test(event.title)) return "concert";
+  // Early evening show with one or two acts that's over by 1am
+  if (
+    event.artistCount > 0 &&
+    event.artistCount <= 2 &&
+    startHour !== null &&
+    startHour >= 18 &&
+    startHour <= 21 &&
+    endHour !== null &&
+    (endHour > startHour || endHour <= 1)
+  ) {
+    return "concert";
+  }
+
+  return "club_night";
+}
@@ -0,0 +1,73 @@
+/**
+ * One-off venue cleanup
+ * Folds duplicate venue rows (re-runs of manual-enrich, name variants)
+ * into one and geocodes venues that are still missing coordinates.
+ *
+ *   festival-pulse venues clean
+ */
+import { db } from "./db.js";
+import { CommandOptions, EXIT_OK } from "./options.js";
+import { geocode } from "./geo/index.js";
+import { loadVenueIds, venueIdsConflict, venueMatchScore } from "./venues.js";
+import { asc, eq, inArray } from "drizzle-orm";
+import { festivals, venues, venueExternalIds } from "../../web/src/db/schema.js";
+
+export async function cleanVenuesCommand(_options: CommandOptions): Promise<number> {
+  const all = await db.select().from(venues).orderBy(asc(venues.createdAt));
+  const ids = await loadVenueIds();
+  console.log(`Found ${all.length} venues`);
+
+  // Oldest row wins; later look-alikes in the same city fold into it, unless
+  // a source has them under different ids
+  const merged = new Set<string>();
+  for (const keep of all) {
+    if (merged.has(keep.id)) continue;
+
+    const dupes: typeof all = [];
+    for (const v of all) {
+      if (v.id === keep.id || merged.has(v.id)) continue;
+      if (venueMatchScore(v, keep) === null) continue;
+      if (venueIdsConflict(ids.get(v.id), ids.get(keep.id))) continue;
+      dupes.push(v);
+      // What's folded in now speaks for the kept row too
+      const keepIds = ids.get(keep.id) ?? new Map<string, Set<string>>();
+      for (const [source, sourceIds] of ids.get(v.id) ?? []) {
+        keepIds.set(source, new Set([...(keepIds.get(source) ?? []), ...sourceIds]));
+      }
+      ids.set(keep.id, keepIds);
+    }
+    if (dupes.length === 0) continue;
+
+    const dupeIds = dupes.map((d) => d.id);
+    await db.update(festivals).set({ venueId: keep.id }).where(inArray(festivals.venueId, dupeIds));
+    await db
+      .update(venueExternalIds)
+      .set({ venueId: keep.id })
+      .where(inArray(venueExternalIds.venueId, dupeIds));
+    await db.delete(venues).where(inArray(venues.id, dupeIds));
+
+    dupeIds.forEach((id) => merged.add(id));
+    console.log(`  🔗 ${keep.name}: merged ${dupes.map((d) => d.name).join(", ")}`);
+  }
+
+  let geocoded = 0;
+  for (const venue of all) {
+    if (merged.has(venue.id)) continue;
+    if (venue.latitude != null && venue.longitude != null) continue;
+
+    const result = await geocode(venue);
+    if (!result) {
+      console.log(`  ❓ No coordinates for ${venue.name}`);
+      continue;
+    }
+
+    await db
+      .update(venues)
+      .set({ latitude: result.latitude, longitude: result.longitude, updatedAt: new Date() })
+      .where(eq(venues.id, venue.id));
+    geocoded++;
+  }
+
+  console.log(`\n🏁 Done! Merged ${merged.size} duplicates, geocoded ${geocoded} venues.`);
+  return EXIT_OK;
+}
@@ -0,0 +1,176 @@
+/**
+ * festival-pulse — one entry point for every pipeline job
+ *
+ *   festival-pulse <command> [flags]
+ *
+ * Shared flags: --source <id>, --artist <slug>, --from/--to YYYY-MM-DD,
+ * --limit N, --dry-run, --json. Exit codes: 0 ok, 1 the job failed,
+ * 2 bad usage — so every command can go straight into cron.
+ */
+import { parseArgs } from "util";
+import { CommandOptions, EXIT_FAILED, EXIT_OK, EXIT_USAGE } from "./options.js";
+
+interface Command {
+  usage: string;
+  description: string;
+  // Loaded on demand so --help works without a database
+  run: () => Promise<(options: CommandOptions) => Promise<number>>;
+}
+
+const COMMANDS: Record<string, Command> = {
+  sync: {
+    usage: "sync [--source <id>] [--from/--to] [--dry-run] [--json]",
+    description: "Sync events from enabled scrape sources",
+    run: async () => (await import("./sync.js")).syncCommand,
+  },
+  "scrape extra": {
+    usage: "scrape extra [--from/--to] [--dry-run] [--json]",
+    description: "Check the extra sources and re-scrape RA Costa Rica",
+    run: async () => (await import("./scrape-extra.js")).scrapeExtraCommand,
+  },
+  "enrich videos": {
+    usage: "enrich videos [--artist <slug>] [--limit N] [--dry-run]",
+    description: "Find recorded sets for artists (YouTube, SoundCloud, Mixcloud)",
+    run: async () => (await import("./enrich-artists.js")).enrichVideosCommand,
+  },
+  "articles generate": {
+    usage: "articles generate [--artist <slug>] [--limit N] [--dry-run]",
+    description: "Write spotlight articles for artists without one",
+    run: async () => (await import("./generate-articles.js")).generateArticlesCommand,
+  },
+  "reel build": {
+    usage: "reel build --artist <slug> [--dry-run]",
+    description: "Build a video reel for an artist",
+    run: async () => (await import("./video-pipeline.js")).reelBuildCommand,
+  },
+  "reel batch": {
+    usage: "reel batch <festival-slug> [--limit N] [--dry-run] [--json]",
+    description: "Build reels for every artist on a festival's lineup",
+    run: async () => (await import("./reel-batch.js")).reelBatchCommand,
+  },
+  "enrich clean-clips": {
+    usage: "enrich clean-clips [--artist <slug>] [--dry-run]",
+    description: "Drop stored clips that aren't of the artist",
+    run: async () => (await import("./enrich-artists.js")).cleanClipsCommand,
+  },
+  "curate validate": {
+    usage: "curate validate [dir]",
+    description: "Check the curation files without touching the database",
+    run: async () => (await import("./curate.js")).curateValidateCommand,
+  },
+  "curate apply": {
+    usage: "curate apply [dir] [--dry-run] [--json]",
+    description: "Apply the curation files in scraper/curation/",
+    run: async () => (await import("./curate.js")).curateApplyCommand,
+  },
+  lifecycle: {
+    usage: "lifecycle",
+    description: "Move events through upcoming → ongoing → past",
+    run: async () => (await import("./lifecycle.js")).lifecycleCommand,
+  },
+  duplicates: {
+    usage: "duplicates [merge|reject <id>]",
+    description: "Review suspected duplicate events",
+    run: async () => (await import("./review-duplicates.js")).duplicatesCommand,
+  },
+  "venues clean": {
+    usage: "venues clean",
+    description: "Merge duplicate venues and geocode missing ones",
+    run: async () => (await import("./clean-venues.js")).cleanVenuesCommand,
+  },
+  "sources seed": {
+    usage: "sources seed [--dry-run]",
+    description: "Add the default scrape sources",
+    run: async () => (await import("./seed-sources.js")).seedSourcesCommand,
+  },
+  schedule: {
+    usage: "schedule",
+    description: "Run every job on its schedule (long-running)",
+    run: async () => (await import("./scheduler.js")).scheduleCommand,
+  },
+};
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function printHelp() {
+  console.log("Usage: festival-pulse <command> [flags]\n");
+  for (const command of Object.values(COMMANDS)) {
+    console.log(`  ${command.usage}`);
+    console.log(`      ${command.description}`);
+  }
+}
+
+function usageError(message: string): number {
+  console.error(`${message}\n`);
+  printHelp();
+  return EXIT_USAGE;
+}
+
+async function main(): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        source: { type: "string" },
+        artist: { type: "string" },
+        from: { type: "string" },
+        to: { type: "string" },
+        limit: { type: "string" },
+        "dry-run": { type: "boolean", default: false },
+        json: { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (err: any) {
+    return usageError(err.message);
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help || positionals.length === 0) {
+    printHelp();
+    return values.help ? EXIT_OK : EXIT_USAGE;
+  }
+
+  // Commands are one or two words: "sync", "enrich videos"
+  const twoWords = positionals.slice(0, 2).join(" ");
+  const name = COMMANDS[twoWords] ? twoWords : positionals[0];
+  const command = COMMANDS[name];
+  if (!command) return usageError(`Unknown command "${positionals.join(" ")}"`);
+
+  for (const flag of ["from", "to"] as const) {
+    if (values[flag] && !DATE.test(values[flag]!)) {
+      return usageError(`--${flag} must be a date like 2026-02-15`);
+    }
+  }
+  const limit = values.limit ? Number(values.limit) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    return usageError("--limit must be a positive whole number");
+  }
+
+  const options: CommandOptions = {
+    args: positionals.slice(name.split(" ").length),
+    source: values.source,
+    artist: values.artist,
+    from: values.from,
+    to: values.to,
+    limit,
+    dryRun: values["dry-run"]!,
+    json: values.json!,
+  };
+
+  // stdout is reserved for the JSON; progress logs move to stderr
+  if (options.json) console.log = console.error;
+
+  const run = await command.run();
+  return run(options);
+}
+
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = EXIT_FAILED;
+  });
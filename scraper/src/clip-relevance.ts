@@ -0,0 +1,200 @@
+/**
+ * Video clip relevance
+ * Scores a search result on whether it's really a set by this artist:
+ * the name in the title, the channel it was posted on, set words around
+ * it ("live", "dj set", "boiler room"), its length and its age. Editors
+ * can pin clips and block others per artist (curation/clips.json, stored
+ * on artists.metadata.clips); pins always stay, blocked clips never return.
+ */
+import { clipKey, VideoClip } from "./media/index.js";
+
+export const MIN_CLIP_SCORE = 0.55;
+export const MAX_CLIPS = 3;
+
+const WEIGHTS = { name: 0.4, channel: 0.2, context: 0.2, duration: 0.15, recency: 0.05 };
+
+// Words that mark a recording of a set rather than a track, a film or a cover
+const SET_WORDS = [
+  "live", "set", "dj set", "full set", "boiler room", "cercle", "mix",
+  "essential mix", "b2b", "festival", "performance", "sunset", "hor berlin",
+  "lot radio", "mixmag", "resident advisor",
+];
+const OFF_TOPIC_WORDS = [
+  "reaction", "tutorial", "lyrics", "karaoke", "cover", "interview",
+  "trailer", "review", "unboxing", "how to", "shorts", "podcast",
+];
+
+// Channels that post other people's sets
+const SET_CHANNELS = [
+  "boiler room", "cercle", "mixmag", "hor berlin", "the lot radio",
+  "resident advisor", "bbc radio 1", "envision festival", "sound of costa rica",
+];
+
+// Suffixes an artist's own channel tends to carry
+const CHANNEL_SUFFIXES = /\s+(topic|vevo|official|music|tv|channel)$/;
+
+// A single-word name followed by one of these is still about the artist
+const NAME_FOLLOWERS = new Set([
+  "live", "set", "dj", "at", "in", "b2b", "x", "boiler", "cercle", "mix",
+  "presents", "full", "hor", "sunset", "closing", "opening",
+]);
+
+export interface ClipScore {
+  score: number;
+  name: number;
+  channel: number | null;
+  context: number;
+  duration: number | null;
+  recency: number | null;
+}
+
+export interface ClipRules {
+  pinned: VideoClip[];
+  blocked: string[]; // clip keys, "youtube:<id>"
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  return ` ${text} `.includes(` ${phrase} `);
+}
+
+/**
+ * 1 for the full name as words of their own; partial credit for some of a
+ * multi-word name ("daily" alone isn't Daily Bread). A one-word name
+ * followed by another word ("Nina Simone", "Yoko Ono") only counts half.
+ */
+function nameScore(name: string, title: string): number {
+  const words = name.split(" ").filter(Boolean);
+  if (!containsPhrase(title, name)) {
+    if (words.length === 1) return 0;
+    const found = words.filter((word) => word.length > 2 && containsPhrase(title, word));
+    return (found.length / words.length) * 0.3;
+  }
+  if (words.length > 1) return 1;
+
+  const tokens = title.split(" ");
+  for (const [i, token] of tokens.entries()) {
+    if (token !== name) continue;
+    const next = tokens[i + 1];
+    if (!next || NAME_FOLLOWERS.has(next)) return 1;
+  }
+  return 0.5;
+}
+
+function channelScore(name: string, channel: string | null | undefined): number | null {
+  if (!channel) return null;
+  const normalized = normalize(channel);
+  if (normalized.replace(CHANNEL_SUFFIXES, "") === name) return 1;
+  return SET_CHANNELS.includes(normalized) ? 0.6 : 0;
+}
+
+function contextScore(title: string): number {
+  if (OFF_TOPIC_WORDS.some((word) => containsPhrase(title, word))) return 0;
+  const hits = SET_WORDS.filter((word) => containsPhrase(title, word)).length;
+  return Math.min(1, hits / 2);
+}
+
+// Sets run long; a three-minute video is a track or a teaser
+function durationScore(seconds: number | null | undefined): number | null {
+  if (!seconds) return null;
+  if (seconds >= 20 * 60) return 1;
+  if (seconds >= 8 * 60) return 0.5;
+  if (seconds >= 3 * 60) return 0.25;
+  return 0;
+}
+
+function recencyScore(uploadDate: string | null | undefined, now: Date): number | null {
+  if (!uploadDate) return null;
+  const years = (now.getTime() - new Date(`${uploadDate}T12:00:00Z`).getTime()) / (365 * 86_400_000);
+  if (years <= 5) return 1;
+  return years <= 10 ? 0.5 : 0;
+}
+
+/**
+ * Scores how likely a clip is a set by this artist (0–1).
+ * Signals the clip doesn't carry (older stored clips have only a title)
+ * are left out of the weighting.
+ */
+export function scoreClip(artistName: string, clip: VideoClip, now = new Date()): ClipScore {
+  const name = normalize(artistName);
+  const title = normalize(clip.title || "");
+
+  const parts = {
+    name: nameScore(name, title),
+    channel: channelScore(name, clip.channel),
+    context: contextScore(title),
+    duration: durationScore(clip.durationSec),
+    recency: recencyScore(clip.uploadDate, now),
+  };
+
+  let total = 0;
+  let weight = 0;
+  for (const [key, value] of Object.entries(parts) as [keyof typeof WEIGHTS, number | null][]) {
+    if (value === null) continue;
+    total += WEIGHTS[key] * value;
+    weight += WEIGHTS[key];
+  }
+
+  // Nothing names the artist: no amount of "live set" makes it theirs
+  const score = parts.name === 0 && parts.channel !== 1 ? 0 : total / weight;
+  return { score, ...parts };
+}
+
+export function clipRules(metadata: unknown): ClipRules {
+  const clips = ((metadata || {}) as Record<string, any>).clips || {};
+  return {
+    pinned: Array.isArray(clips.pinned) ? clips.pinned : [],
+    blocked: Array.isArray(clips.blocked)
+      ? clips.blocked.map((id: string) => clipKey(id) || id)
+      : [],
+  };
+}
+
+/**
+ * The clips to store for an artist: their pins first, then the best
+ * scoring candidates that aren't blocked, up to MAX_CLIPS in all.
+ */
+export function selectClips(
+  artistName: string,
+  candidates: VideoClip[],
+  rules: ClipRules,
+  max = MAX_CLIPS
+): { clips: VideoClip[]; rejected: { clip: VideoClip; reason: string }[] } {
+  const blocked = new Set(rules.blocked);
+  const taken = new Set(rules.pinned.map((clip) => clipKey(clip.sourceUrl)));
+  const rejected: { clip: VideoClip; reason: string }[] = [];
+
+  const scored: VideoClip[] = [];
+  // A stored clip's pinned flag is stale once the rules change; rules decide
+  for (const { pinned: _pinned, ...clip } of candidates) {
+    const id = clipKey(clip.sourceUrl);
+    if (id && taken.has(id)) continue;
+    if (id && blocked.has(id)) {
+      rejected.push({ clip, reason: "blocked" });
+      continue;
+    }
+
+    const { score } = scoreClip(artistName, clip);
+    if (score < MIN_CLIP_SCORE) {
+      rejected.push({ clip, reason: `score ${score.toFixed(2)}` });
+      continue;
+    }
+    taken.add(id);
+    scored.push({ ...clip, score: Math.round(score * 100) / 100 });
+  }
+
+  scored.sort((a, b) => b.score! - a.score!);
+  const pinned = rules.pinned.map((clip) => ({ ...clip, pinned: true }));
+  return {
+    clips: [...pinned, ...scored.slice(0, Math.max(0, max - pinned.length))],
+    rejected,
+  };
+}
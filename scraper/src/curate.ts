@@ -0,0 +1,59 @@
+/**
+ * Hand curation the scrapers can't do, kept as data in scraper/curation/
+ *
+ *   festival-pulse curate validate [dir]
+ *   festival-pulse curate apply [dir] [--dry-run] [--json]
+ *
+ * See src/curation/types.ts for what each file holds.
+ */
+import path from "path";
+import { createDiff, emitDiff } from "./diff.js";
+import { CommandOptions, EXIT_FAILED, EXIT_OK } from "./options.js";
+import { formatIssue, loadCuration } from "./curation/load.js";
+
+const DEFAULT_DIR = "curation";
+
+function load(options: CommandOptions) {
+  const dir = path.resolve(options.args[0] || DEFAULT_DIR);
+  console.log(`Loading curation from ${dir}`);
+
+  const { curation, issues } = loadCuration(dir);
+  if (issues.length > 0) {
+    console.error(`\n❌ ${issues.length} problems in the curation files:`);
+    issues.forEach((issue) => console.error(`  ${formatIssue(issue)}`));
+    return null;
+  }
+
+  console.log(
+    `  ${curation.venues.length} venues, ${curation.events.length} events, ` +
+      `${curation.overrides.length} overrides, ${curation.lineups.length} lineups`
+  );
+  return curation;
+}
+
+export async function curateValidateCommand(options: CommandOptions): Promise<number> {
+  if (!load(options)) return EXIT_FAILED;
+  console.log("✅ Curation files are valid");
+  return EXIT_OK;
+}
+
+export async function curateApplyCommand(options: CommandOptions): Promise<number> {
+  const curation = load(options);
+  if (!curation) return EXIT_FAILED;
+
+  console.log(`\n=== Applying curation${options.dryRun ? " (dry run)" : ""} ===\n`);
+  // Imported here so validate runs without a database
+  const { applyCuration } = await import("./curation/apply.js");
+  const diff = createDiff(options.dryRun);
+  const issues = await applyCuration(curation, diff, options.dryRun);
+
+  emitDiff(diff, options);
+
+  if (issues.length > 0) {
+    console.error(`\n❌ ${issues.length} entries couldn't be applied:`);
+    issues.forEach((issue) => console.error(`  ${formatIssue(issue)}`));
+    return EXIT_FAILED;
+  }
+  console.log("\n=== Done! ===");
+  return EXIT_OK;
+}
@@ -0,0 +1,433 @@
+/**
+ * Applies curation files to the database
+ * Idempotent: everything is matched before it's created, and only fields
+ * that differ are written, so a second run is a no-op. Venues go first,
+ * then events, overrides and lineups, which may refer to them, then the
+ * clip rules.
+ */
+import { db } from "../db.js";
+import { findDuplicate, queueForReview } from "../dedup.js";
+import type { ClipRules } from "../clip-relevance.js";
+import type { SyncDiff } from "../diff.js";
+import { findArtist, FieldChange } from "../upsert.js";
+import { resolveVenue, upsertVenue } from "../venues.js";
+import { clipKey, getProvider, identify, VideoClip } from "../media/index.js";
+import { and, eq, ilike } from "drizzle-orm";
+import {
+  artists,
+  festivalLineups,
+  festivals,
+  venues,
+} from "../../../web/src/db/schema.js";
+import type {
+  CuratedClips,
+  CuratedEvent,
+  CuratedVenue,
+  Curation,
+  CurationIssue,
+  EventMatch,
+} from "./types.js";
+
+type FestivalRow = typeof festivals.$inferSelect;
+
+// Event fields a curation file can set, and the festivals column each lands in
+const EVENT_COLUMNS = {
+  name: "name",
+  startDate: "startDate",
+  endDate: "endDate",
+  venue: "venueId",
+  eventType: "eventType",
+  status: "status",
+  description: "description",
+  websiteUrl: "websiteUrl",
+  ticketUrl: "ticketUrl",
+  imageUrl: "imageUrl",
+} as const;
+
+// Statuses that follow an event's dates (status.ts). Curation can start a new
+// event off with one, but setting or locking one on an existing event would
+// undo the lifecycle on every apply; only "cancelled" sticks.
+const LIFECYCLE_STATUSES = ["upcoming", "ongoing", "past"];
+
+type EventColumn = (typeof EVENT_COLUMNS)[keyof typeof EVENT_COLUMNS];
+type EventValues = Partial<Record<EventColumn, string | null>>;
+
+interface CurationContext {
+  diff: SyncDiff;
+  dryRun: boolean;
+  issues: CurationIssue[];
+  venueIds: Map<string, string | null>; // curated name -> id (null: new on a dry run)
+  newEvents: Set<string>; // slugs a dry run would create
+}
+
+// Artists were first created by hand with accents folded into the slug
+function artistSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+function describeMatch(match: EventMatch): string {
+  return match.slug ? `slug ${match.slug}` : `name "${match.name}"`;
+}
+
+function toUpdates(changes: Record<string, FieldChange>) {
+  return Object.fromEntries(Object.entries(changes).map(([key, change]) => [key, change.to]));
+}
+
+// ─── Venues ───
+
+async function applyVenue(ctx: CurationContext, curated: CuratedVenue) {
+  const venue = {
+    externalId: null,
+    name: curated.name,
+    city: curated.city ?? null,
+    country: curated.country ?? null,
+    address: curated.address ?? null,
+    latitude: curated.latitude,
+    longitude: curated.longitude,
+  };
+
+  const existing = await resolveVenue(venue, null);
+  if (!existing) {
+    ctx.diff.newVenues.push(curated.name);
+    console.log(`  📍 ${ctx.dryRun ? "Would add" : "Added"} venue ${curated.name}`);
+    ctx.venueIds.set(curated.name, ctx.dryRun ? null : await upsertVenue(venue, null));
+    return;
+  }
+
+  ctx.venueIds.set(curated.name, existing.id);
+
+  // Curated values win over whatever a source sent
+  const changes: Record<string, FieldChange> = {};
+  for (const key of ["city", "country", "address", "latitude", "longitude"] as const) {
+    const value = curated[key];
+    if (value !== undefined && value !== existing[key]) {
+      changes[key] = { from: existing[key], to: value };
+    }
+  }
+  if (Object.keys(changes).length === 0) return;
+
+  ctx.diff.venueUpdates.push({ title: existing.name, source: "curation", values: changes });
+  console.log(`  📍 ${ctx.dryRun ? "Would update" : "Updated"} venue ${existing.name}`);
+  if (ctx.dryRun) return;
+
+  await db
+    .update(venues)
+    .set({ ...toUpdates(changes), updatedAt: new Date() })
+    .where(eq(venues.id, existing.id));
+}
+
+/** undefined when the venue isn't curated or in the DB (reported as an issue). */
+async function venueId(ctx: CurationContext, name: string, file: string, path: string) {
+  if (ctx.venueIds.has(name)) return ctx.venueIds.get(name)!;
+
+  const existing = await resolveVenue(
+    { externalId: null, name, city: null, country: null, address: null },
+    null
+  );
+  if (!existing) {
+    ctx.issues.push({ file, path, message: `unknown venue "${name}"; add it to venues.json` });
+    return undefined;
+  }
+  ctx.venueIds.set(name, existing.id);
+  return existing.id;
+}
+
+// ─── Events ───
+
+async function columnValues(
+  ctx: CurationContext,
+  fields: Partial<Omit<CuratedEvent, "slug">>,
+  file: string,
+  path: string
+): Promise<EventValues | null> {
+  const values: EventValues = {};
+  for (const [field, column] of Object.entries(EVENT_COLUMNS)) {
+    const value = fields[field as keyof typeof EVENT_COLUMNS];
+    if (value === undefined) continue;
+    if (field !== "venue") {
+      values[column] = value;
+      continue;
+    }
+    const id = await venueId(ctx, value, file, `${path}.venue`);
+    if (id === undefined) return null;
+    values.venueId = id;
+  }
+  return values;
+}
+
+/**
+ * Writes the fields that differ. `lock` names fields later syncs must
+ * leave alone (metadata.lockedFields, honoured by upsertEvent). A status
+ * the lifecycle manages is neither written nor locked.
+ */
+async function updateEvent(
+  ctx: CurationContext,
+  row: FestivalRow,
+  values: EventValues,
+  lock: EventColumn[]
+) {
+  const lifecycle = values.status != null && LIFECYCLE_STATUSES.includes(values.status);
+  const changes: Record<string, FieldChange> = {};
+  for (const [column, value] of Object.entries(values) as [EventColumn, string | null][]) {
+    if (column === "venueId" && value === null) continue; // a dry run's new venue
+    if (column === "status" && lifecycle) continue;
+    if (row[column] !== value) changes[column] = { from: row[column], to: value };
+  }
+
+  const metadata = (row.metadata || {}) as Record<string, unknown>;
+  const locked = new Set((metadata.lockedFields as string[]) || []);
+  const newLocks = lock.filter((field) => !locked.has(field) && !(field === "status" && lifecycle));
+  // Left over from overrides that pinned a lifecycle status
+  const staleLock = locked.has("status") && row.status !== "cancelled" && values.status !== "cancelled";
+  if (staleLock) locked.delete("status");
+
+  if (Object.keys(changes).length > 0) {
+    ctx.diff.update.push({ title: row.name, source: "curation", values: changes });
+    console.log(
+      `  ✏️  ${ctx.dryRun ? "Would update" : "Updated"} ${row.name}: ${Object.keys(changes).join(", ")}`
+    );
+  }
+  if (ctx.dryRun || (Object.keys(changes).length === 0 && newLocks.length === 0 && !staleLock)) return;
+
+  await db
+    .update(festivals)
+    .set({
+      ...toUpdates(changes),
+      metadata: { ...metadata, lockedFields: [...locked, ...newLocks] },
+      updatedAt: new Date(),
+    })
+    .where(eq(festivals.id, row.id));
+}
+
+async function applyEvent(ctx: CurationContext, event: CuratedEvent, i: number) {
+  const values = await columnValues(ctx, event, "events.json", `[${i}]`);
+  if (!values) return;
+
+  const [existing] = await db.select().from(festivals).where(eq(festivals.slug, event.slug));
+  if (existing) {
+    await updateEvent(ctx, existing, values, []);
+    return;
+  }
+
+  const duplicate = await findDuplicate({
+    title: event.name,
+    startDate: event.startDate,
+    endDate: event.endDate ?? event.startDate,
+    venueName: event.venue ?? null,
+    artistNames: [],
+  });
+  if (duplicate?.decision === "merge") {
+    console.log(`  ⏭️  ${event.name} already exists as ${duplicate.name}; correct it in overrides.json`);
+    return;
+  }
+
+  ctx.diff.create.push({
+    title: event.name,
+    source: "curation",
+    values: Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [key, { from: null, to: value }])
+    ),
+  });
+  if (duplicate) {
+    ctx.diff.duplicates.push({
+      event: event.name,
+      duplicateOf: duplicate.name,
+      score: Math.round(duplicate.scores.score * 100) / 100,
+      decision: duplicate.decision,
+    });
+  }
+  console.log(`  ✨ ${ctx.dryRun ? "Would add" : "Added"} ${event.name}`);
+
+  if (ctx.dryRun) {
+    ctx.newEvents.add(event.slug);
+    return;
+  }
+
+  const [inserted] = await db
+    .insert(festivals)
+    .values({
+      ...values,
+      name: event.name,
+      slug: event.slug,
+      endDate: event.endDate ?? event.startDate,
+      status: event.status ?? "upcoming",
+      metadata: { source: "manual" },
+    })
+    .returning({ id: festivals.id });
+  if (duplicate) await queueForReview(inserted.id, duplicate);
+}
+
+async function findEvent(ctx: CurationContext, match: EventMatch, file: string, path: string) {
+  const rows = await db
+    .select()
+    .from(festivals)
+    .where(match.slug ? eq(festivals.slug, match.slug) : ilike(festivals.name, `%${match.name}%`));
+
+  if (rows.length === 1) return rows[0];
+  ctx.issues.push({
+    file,
+    path,
+    message:
+      rows.length === 0
+        ? `no event with ${describeMatch(match)}`
+        : `${describeMatch(match)} matches ${rows.length} events (${rows.map((r) => r.slug).join(", ")}); use a slug`,
+  });
+  return null;
+}
+
+// ─── Lineups ───
+
+async function artistId(ctx: CurationContext, name: string): Promise<string | null> {
+  const [bySlug] = await db
+    .select({ id: artists.id })
+    .from(artists)
+    .where(eq(artists.slug, artistSlug(name)));
+  if (bySlug) return bySlug.id;
+
+  const match = await findArtist({ externalId: null, name, url: null }, "curation");
+  if (match.id !== null) return match.id;
+
+  if (!ctx.diff.newArtists.includes(name)) ctx.diff.newArtists.push(name);
+  if (ctx.dryRun) return null;
+
+  const [inserted] = await db
+    .insert(artists)
+    .values({ name, slug: artistSlug(name) })
+    .returning({ id: artists.id });
+  console.log(`  🎧 Created artist: ${name}`);
+  return inserted.id;
+}
+
+async function applyLineup(
+  ctx: CurationContext,
+  row: FestivalRow,
+  lineup: { name: string; headliner?: boolean }[]
+) {
+  let added = 0;
+  for (const artist of lineup) {
+    const id = await artistId(ctx, artist.name);
+
+    if (id) {
+      const [linked] = await db
+        .select({ id: festivalLineups.id, source: festivalLineups.source })
+        .from(festivalLineups)
+        .where(and(eq(festivalLineups.festivalId, row.id), eq(festivalLineups.artistId, id)));
+      // Rows linked before lineup sources were kept have none; claim them so syncs leave them be
+      if (linked?.source === null && !ctx.dryRun) {
+        await db.update(festivalLineups).set({ source: "curation" }).where(eq(festivalLineups.id, linked.id));
+      }
+      if (linked) continue;
+    }
+
+    ctx.diff.lineupAdded.push({ event: row.name, artist: artist.name });
+    added++;
+    if (ctx.dryRun || !id) continue;
+
+    // A sync only drops rows its own source added
+    await db
+      .insert(festivalLineups)
+      .values({
+        festivalId: row.id,
+        artistId: id,
+        source: "curation",
+        isHeadliner: artist.headliner ?? false,
+        announcedAt: new Date(),
+      })
+      .onConflictDoNothing();
+  }
+
+  if (added > 0) {
+    console.log(`  ➕ ${ctx.dryRun ? "Would link" : "Linked"} ${added} artists to ${row.name}`);
+  }
+}
+
+// ─── Clips ───
+
+function pinnedClip(pin: NonNullable<CuratedClips["pin"]>[number], artistName: string): VideoClip {
+  const { url, title, startSec = 0, endSec } = typeof pin === "string" ? { url: pin } : pin;
+  const { provider, id } = identify(url) ?? { provider: getProvider("youtube")!, id: url };
+  return {
+    provider: provider.name,
+    sourceUrl: provider.urlFor(id),
+    startSec,
+    endSec: endSec ?? startSec + 60,
+    title: title || `${artistName} set`,
+  };
+}
+
+// Stored on artists.metadata.clips, where enrichment picks them up
+async function applyClips(ctx: CurationContext, entry: CuratedClips, i: number) {
+  const [artist] = await db.select().from(artists).where(eq(artists.slug, entry.artist));
+  if (!artist) {
+    ctx.issues.push({ file: "clips.json", path: `[${i}].artist`, message: `no artist with slug ${entry.artist}` });
+    return;
+  }
+
+  const rules: ClipRules = {
+    pinned: (entry.pin || []).map((pin) => pinnedClip(pin, artist.name)),
+    blocked: (entry.block || []).map((url) => clipKey(url)!),
+  };
+  const metadata = (artist.metadata || {}) as Record<string, unknown>;
+  if (JSON.stringify(metadata.clips) === JSON.stringify(rules)) return;
+
+  console.log(
+    `  🎬 ${ctx.dryRun ? "Would set" : "Set"} clips for ${artist.name}: ` +
+      `${rules.pinned.length} pinned, ${rules.blocked.length} blocked`
+  );
+  if (ctx.dryRun) return;
+
+  await db
+    .update(artists)
+    .set({ metadata: { ...metadata, clips: rules }, updatedAt: new Date() })
+    .where(eq(artists.id, artist.id));
+}
+
+/** Applies the curation, recording changes on `diff`; returns what it couldn't apply. */
+export async function applyCuration(
+  curation: Curation,
+  diff: SyncDiff,
+  dryRun: boolean
+): Promise<CurationIssue[]> {
+  const ctx: CurationContext = {
+    diff,
+    dryRun,
+    issues: [],
+    venueIds: new Map(),
+    newEvents: new Set(),
+  };
+
+  for (const venue of curation.venues) await applyVenue(ctx, venue);
+
+  for (const [i, event] of curation.events.entries()) await applyEvent(ctx, event, i);
+
+  for (const [i, override] of curation.overrides.entries()) {
+    const row = await findEvent(ctx, override.match, "overrides.json", `[${i}].match`);
+    if (!row) continue;
+    const values = await columnValues(ctx, override.set, "overrides.json", `[${i}].set`);
+    if (values) await updateEvent(ctx, row, values, Object.keys(values) as EventColumn[]);
+  }
+
+  for (const [i, lineup] of curation.lineups.entries()) {
+    const entries = lineup.artists.map((a) => (typeof a === "string" ? { name: a } : a));
+
+    // Only on a dry run: the event isn't there yet, so its whole lineup is new
+    if (lineup.event.slug && ctx.newEvents.has(lineup.event.slug)) {
+      for (const artist of entries) {
+        ctx.diff.lineupAdded.push({ event: lineup.event.slug, artist: artist.name });
+      }
+      continue;
+    }
+
+    const row = await findEvent(ctx, lineup.event, "lineups.json", `[${i}].event`);
+    if (row) await applyLineup(ctx, row, entries);
+  }
+
+  for (const [i, entry] of curation.clips.entries()) await applyClips(ctx, entry, i);
+
+  return ctx.issues;
+}
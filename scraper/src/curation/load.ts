@@ -0,0 +1,218 @@
+/**
+ * Loads and validates the curation files
+ * Problems are collected rather than thrown, so an editor sees every
+ * mistake in one run.
+ */
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import { EVENT_TYPES } from "../classify.js";
+import { clipKey } from "../media/index.js";
+import type { Curation, CurationIssue, EventMatch } from "./types.js";
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const SLUG = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const STATUSES = ["upcoming", "ongoing", "past", "cancelled"];
+
+type Check = (value: unknown) => string | null; // an error message, or null
+
+const str: Check = (v) => (typeof v === "string" && v.trim() ? null : "expected a non-empty string");
+const date: Check = (v) => (typeof v === "string" && DATE.test(v) ? null : "expected a date like 2026-02-15");
+const slug: Check = (v) => (typeof v === "string" && SLUG.test(v) ? null : "expected a slug like my-event-2026");
+const num: Check = (v) => (typeof v === "number" && Number.isFinite(v) ? null : "expected a number");
+const url: Check = (v) => (typeof v === "string" && /^https?:\/\//.test(v) ? null : "expected an http(s) URL");
+const video: Check = (v) =>
+  typeof v === "string" && clipKey(v) ? null : "expected a YouTube, SoundCloud or Mixcloud URL";
+const seconds: Check = (v) => (typeof v === "number" && Number.isInteger(v) && v >= 0 ? null : "expected whole seconds");
+const oneOf = (values: readonly string[]): Check => (v) =>
+  typeof v === "string" && values.includes(v) ? null : `expected one of ${values.join(", ")}`;
+
+const VENUE_FIELDS: Record<string, Check> = {
+  name: str,
+  city: str,
+  country: str,
+  address: str,
+  latitude: num,
+  longitude: num,
+};
+
+const EVENT_FIELDS: Record<string, Check> = {
+  slug,
+  name: str,
+  startDate: date,
+  endDate: date,
+  venue: str,
+  eventType: oneOf(EVENT_TYPES),
+  status: oneOf(STATUSES),
+  description: str,
+  websiteUrl: url,
+  ticketUrl: url,
+  imageUrl: url,
+};
+
+// Everything but the slug, which is how an event is found in the first place
+const { slug: _slug, ...OVERRIDE_FIELDS } = EVENT_FIELDS;
+
+const ARTIST_FIELDS: Record<string, Check> = {
+  name: str,
+  headliner: (v) => (typeof v === "boolean" ? null : "expected true or false"),
+};
+
+const PIN_FIELDS: Record<string, Check> = {
+  url: video,
+  title: str,
+  startSec: seconds,
+  endSec: seconds,
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Checks an object against field rules: required keys, known keys, types. */
+function checkFields(
+  value: unknown,
+  fields: Record<string, Check>,
+  required: string[],
+  at: string,
+  report: (path: string, message: string) => void
+) {
+  if (!isObject(value)) return report(at, "expected an object");
+
+  for (const key of required) {
+    if (value[key] === undefined) report(`${at}.${key}`, "is required");
+  }
+  for (const [key, v] of Object.entries(value)) {
+    const check = fields[key];
+    if (!check) {
+      report(`${at}.${key}`, "unknown field");
+      continue;
+    }
+    const message = check(v);
+    if (message) report(`${at}.${key}`, message);
+  }
+}
+
+function checkMatch(value: unknown, at: string, report: (path: string, message: string) => void) {
+  checkFields(value, { slug, name: str }, [], at, report);
+  const match = value as EventMatch;
+  if (isObject(value) && !match.slug && !match.name) report(at, "needs a slug or a name");
+}
+
+function readFile(dir: string, name: string, issues: CurationIssue[]): unknown[] {
+  const file = `${name}.json`;
+  const full = path.join(dir, file);
+  if (!existsSync(full)) return [];
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(full, "utf-8"));
+  } catch (err: any) {
+    issues.push({ file, path: "", message: `invalid JSON: ${err.message}` });
+    return [];
+  }
+  if (!Array.isArray(data)) {
+    issues.push({ file, path: "", message: "expected an array" });
+    return [];
+  }
+  return data;
+}
+
+export function loadCuration(dir: string): { curation: Curation; issues: CurationIssue[] } {
+  const issues: CurationIssue[] = [];
+  const reporter = (file: string) => (p: string, message: string) =>
+    issues.push({ file, path: p, message });
+
+  const venues = readFile(dir, "venues", issues);
+  venues.forEach((v, i) => checkFields(v, VENUE_FIELDS, ["name"], `[${i}]`, reporter("venues.json")));
+
+  const events = readFile(dir, "events", issues);
+  events.forEach((e, i) =>
+    checkFields(e, EVENT_FIELDS, ["slug", "name", "startDate"], `[${i}]`, reporter("events.json"))
+  );
+
+  const overrides = readFile(dir, "overrides", issues);
+  overrides.forEach((o, i) => {
+    const report = reporter("overrides.json");
+    checkFields(o, { match: () => null, set: () => null }, ["match", "set"], `[${i}]`, report);
+    if (!isObject(o)) return;
+    checkMatch(o.match, `[${i}].match`, report);
+    checkFields(o.set, OVERRIDE_FIELDS, [], `[${i}].set`, report);
+  });
+
+  const lineups = readFile(dir, "lineups", issues);
+  lineups.forEach((l, i) => {
+    const report = reporter("lineups.json");
+    checkFields(l, { event: () => null, artists: () => null }, ["event", "artists"], `[${i}]`, report);
+    if (!isObject(l)) return;
+    checkMatch(l.event, `[${i}].event`, report);
+    if (!Array.isArray(l.artists)) return report(`[${i}].artists`, "expected an array");
+    l.artists.forEach((a, j) => {
+      const at = `[${i}].artists[${j}]`;
+      if (typeof a !== "string") return checkFields(a, ARTIST_FIELDS, ["name"], at, report);
+      const message = str(a);
+      if (message) report(at, message);
+    });
+  });
+
+  const clips = readFile(dir, "clips", issues);
+  clips.forEach((c, i) => {
+    const report = reporter("clips.json");
+    checkFields(c, { artist: slug, pin: () => null, block: () => null }, ["artist"], `[${i}]`, report);
+    if (!isObject(c)) return;
+
+    const pinned = new Set<string | null>();
+    if (c.pin !== undefined && !Array.isArray(c.pin)) report(`[${i}].pin`, "expected an array");
+    if (Array.isArray(c.pin)) {
+      c.pin.forEach((p, j) => {
+        const at = `[${i}].pin[${j}]`;
+        if (typeof p !== "string") {
+          checkFields(p, PIN_FIELDS, ["url"], at, report);
+          if (isObject(p) && typeof p.url === "string") pinned.add(clipKey(p.url));
+          if (isObject(p) && typeof p.startSec === "number" && typeof p.endSec === "number" && p.endSec <= p.startSec) {
+            report(`${at}.endSec`, "is not after startSec");
+          }
+          return;
+        }
+        const message = video(p);
+        if (message) report(at, message);
+        pinned.add(clipKey(p));
+      });
+    }
+
+    if (c.block !== undefined && !Array.isArray(c.block)) report(`[${i}].block`, "expected an array");
+    if (Array.isArray(c.block)) {
+      c.block.forEach((b, j) => {
+        const message = video(b);
+        if (message) return report(`[${i}].block[${j}]`, message);
+        if (pinned.has(clipKey(b as string))) report(`[${i}].block[${j}]`, "is also pinned");
+      });
+    }
+  });
+
+  // Checks across entries
+  const slugs = new Set<string>();
+  events.forEach((e, i) => {
+    if (!isObject(e) || typeof e.slug !== "string") return;
+    if (slugs.has(e.slug)) reporter("events.json")(`[${i}].slug`, `duplicate slug ${e.slug}`);
+    slugs.add(e.slug);
+    if (typeof e.endDate === "string" && typeof e.startDate === "string" && e.endDate < e.startDate) {
+      reporter("events.json")(`[${i}].endDate`, "is before startDate");
+    }
+  });
+
+  const clipArtists = new Set<string>();
+  clips.forEach((c, i) => {
+    if (!isObject(c) || typeof c.artist !== "string") return;
+    if (clipArtists.has(c.artist)) reporter("clips.json")(`[${i}].artist`, `duplicate artist ${c.artist}`);
+    clipArtists.add(c.artist);
+  });
+
+  return {
+    curation: { venues, events, overrides, lineups, clips } as Curation,
+    issues,
+  };
+}
+
+export function formatIssue(issue: CurationIssue): string {
+  return `${issue.file}${issue.path}: ${issue.message}`;
+}
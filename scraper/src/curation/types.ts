@@ -0,0 +1,79 @@
+/**
+ * Shapes of the curation files in scraper/curation/
+ * Each file is a JSON array; every file is optional.
+ */
+
+// venues.json — venues to create, or to correct when they already exist
+export interface CuratedVenue {
+  name: string;
+  city?: string;
+  country?: string;
+  address?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+// events.json — events the scrapers don't know about, keyed by slug
+export interface CuratedEvent {
+  slug: string;
+  name: string;
+  startDate: string;
+  endDate?: string;
+  venue?: string; // a venue name, from venues.json or already in the DB
+  eventType?: string;
+  status?: string; // a new event's first status; on an existing one only "cancelled" applies
+  description?: string;
+  websiteUrl?: string;
+  ticketUrl?: string;
+  imageUrl?: string;
+}
+
+// Picks out one existing event: by slug, or by a name substring that
+// must match exactly one event
+export interface EventMatch {
+  slug?: string;
+  name?: string;
+}
+
+// overrides.json — corrections to events a source got wrong; the fields
+// set here are locked so later syncs don't put the wrong values back
+export interface CuratedOverride {
+  match: EventMatch;
+  set: Partial<Omit<CuratedEvent, "slug">>;
+}
+
+// lineups.json — artists to add to an event's lineup
+export interface CuratedLineup {
+  event: EventMatch;
+  artists: (string | { name: string; headliner?: boolean })[];
+}
+
+// clips.json — YouTube, SoundCloud or Mixcloud uploads editors pin to an
+// artist or block from it; enrichment keeps the pins and never brings a
+// blocked clip back
+export interface CuratedClipPin {
+  url: string;
+  title?: string;
+  startSec?: number; // the part the reel uses; defaults to the first minute
+  endSec?: number;
+}
+
+export interface CuratedClips {
+  artist: string; // slug
+  pin?: (string | CuratedClipPin)[];
+  block?: string[]; // upload URLs (or bare YouTube ids)
+}
+
+export interface Curation {
+  venues: CuratedVenue[];
+  events: CuratedEvent[];
+  overrides: CuratedOverride[];
+  lineups: CuratedLineup[];
+  clips: CuratedClips[];
+}
+
+export interface CurationIssue {
+  file: string;
+  path: string; // "[2].startDate"
+  message: string;
+}
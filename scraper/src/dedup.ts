@@ -0,0 +1,316 @@
+/**
+ * Cross-source event deduplication
+ * Scores an incoming event against existing festivals on normalized title,
+ * date overlap, venue and lineup overlap. High scores are merged
+ * automatically, borderline ones are queued in duplicate_candidates
+ * for a human to review. A festival that already carries a different id
+ * from the incoming event's source is never a match.
+ */
+import { db } from "./db.js";
+import { and, eq, gte, inArray, isNull, lte, or, sql } from "drizzle-orm";
+import {
+  artists,
+  festivals,
+  festivalLineups,
+  venues,
+  duplicateCandidates,
+} from "../../web/src/db/schema.js";
+
+export const AUTO_MERGE_THRESHOLD = 0.85;
+export const REVIEW_THRESHOLD = 0.6;
+
+// Words that say nothing about which event it is
+const STOPWORDS = new Set([
+  "the", "a", "an", "and", "of", "at", "in", "with", "presents", "pres",
+  "x", "b2b", "feat", "ft", "edition", "vol", "night", "party", "festival",
+  "fest", "live", "official", "tickets",
+]);
+
+const WEIGHTS = { title: 0.4, date: 0.3, venue: 0.15, lineup: 0.15 };
+
+export interface DedupCandidate {
+  title: string;
+  startDate: string | null;
+  endDate: string | null;
+  venueName: string | null;
+  artistNames: string[];
+  // Where it came from; an event holding another id from that source is a different listing
+  source?: string;
+  externalId?: string;
+}
+
+export interface ExistingFestival extends DedupCandidate {
+  id: string;
+  metadata: unknown;
+}
+
+export interface DedupScore {
+  score: number;
+  title: number;
+  date: number | null;
+  venue: number | null;
+  lineup: number | null;
+}
+
+export interface DedupMatch {
+  festivalId: string;
+  name: string;
+  decision: "merge" | "review";
+  scores: DedupScore;
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function titleTokens(title: string): string[] {
+  return normalize(title)
+    .split(" ")
+    .filter((t) => t && !STOPWORDS.has(t) && !/^(19|20)\d\d$/.test(t));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.round(
+    (new Date(`${a}T12:00:00Z`).getTime() - new Date(`${b}T12:00:00Z`).getTime()) /
+      86_400_000
+  );
+}
+
+function dateScore(a: DedupCandidate, b: DedupCandidate): number | null {
+  if (!a.startDate || !b.startDate) return null;
+  const aEnd = a.endDate || a.startDate;
+  const bEnd = b.endDate || b.startDate;
+
+  // Overlapping ranges
+  if (a.startDate <= bEnd && b.startDate <= aEnd) return 1;
+
+  const gap = Math.min(
+    Math.abs(daysBetween(a.startDate, bEnd)),
+    Math.abs(daysBetween(b.startDate, aEnd))
+  );
+  return gap <= 1 ? 0.5 : 0;
+}
+
+function venueScore(a: DedupCandidate, b: DedupCandidate): number | null {
+  if (!a.venueName || !b.venueName) return null;
+  const na = normalize(a.venueName);
+  const nb = normalize(b.venueName);
+  if (na === nb) return 1;
+  if (na.includes(nb) || nb.includes(na)) return 0.8;
+  return jaccard(new Set(na.split(" ")), new Set(nb.split(" ")));
+}
+
+function lineupScore(a: DedupCandidate, b: DedupCandidate): number | null {
+  if (a.artistNames.length === 0 || b.artistNames.length === 0) return null;
+  return jaccard(
+    new Set(a.artistNames.map(normalize)),
+    new Set(b.artistNames.map(normalize))
+  );
+}
+
+/**
+ * Scores how likely two events are the same one (0–1).
+ * Signals missing on either side are left out of the weighting.
+ * Events on clearly different dates never match, whatever their titles say.
+ */
+export function scorePair(a: DedupCandidate, b: DedupCandidate): DedupScore {
+  const title = jaccard(new Set(titleTokens(a.title)), new Set(titleTokens(b.title)));
+  const date = dateScore(a, b);
+  const venue = venueScore(a, b);
+  const lineup = lineupScore(a, b);
+
+  if (date === 0) return { score: 0, title, date, venue, lineup };
+
+  let total = WEIGHTS.title * title;
+  let weight = WEIGHTS.title;
+  for (const [key, value] of [
+    ["date", date],
+    ["venue", venue],
+    ["lineup", lineup],
+  ] as const) {
+    if (value === null) continue;
+    total += WEIGHTS[key] * value;
+    weight += WEIGHTS[key];
+  }
+
+  return { score: total / weight, title, date, venue, lineup };
+}
+
+function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+async function loadNearbyFestivals(
+  candidate: DedupCandidate,
+  excludeId?: string
+): Promise<ExistingFestival[]> {
+  let where;
+  if (candidate.startDate) {
+    where = and(
+      lte(festivals.startDate, shiftDate(candidate.endDate || candidate.startDate, 1)),
+      or(
+        gte(festivals.endDate, shiftDate(candidate.startDate, -1)),
+        and(isNull(festivals.endDate), gte(festivals.startDate, shiftDate(candidate.startDate, -1)))
+      )
+    );
+  } else {
+    // Undated: fall back to events sharing the most distinctive title word
+    const token = [...titleTokens(candidate.title)].sort((x, y) => y.length - x.length)[0];
+    if (!token) return [];
+    where = sql`lower(${festivals.name}) like ${`%${token}%`}`;
+  }
+
+  const rows = await db
+    .select({
+      id: festivals.id,
+      name: festivals.name,
+      startDate: festivals.startDate,
+      endDate: festivals.endDate,
+      venueName: venues.name,
+      metadata: festivals.metadata,
+    })
+    .from(festivals)
+    .leftJoin(venues, eq(festivals.venueId, venues.id))
+    .where(where)
+    .limit(100);
+
+  const others = rows.filter((r) => r.id !== excludeId);
+  if (others.length === 0) return [];
+
+  const lineups = await db
+    .select({ festivalId: festivalLineups.festivalId, name: artists.name })
+    .from(festivalLineups)
+    .innerJoin(artists, eq(festivalLineups.artistId, artists.id))
+    .where(
+      inArray(
+        festivalLineups.festivalId,
+        others.map((r) => r.id)
+      )
+    );
+
+  return others.map((r) => ({
+    id: r.id,
+    title: r.name,
+    startDate: r.startDate,
+    endDate: r.endDate,
+    venueName: r.venueName,
+    artistNames: lineups.filter((l) => l.festivalId === r.id).map((l) => l.name),
+    metadata: r.metadata,
+  }));
+}
+
+// Two listings from one source are two events, however alike they look
+function otherListingOfSource(candidate: DedupCandidate, row: ExistingFestival): boolean {
+  if (!candidate.source || !candidate.externalId) return false;
+  const theirs = ((row.metadata || {}) as Record<string, unknown>)[`${candidate.source}Id`];
+  return theirs != null && String(theirs) !== candidate.externalId;
+}
+
+/** The best of `rows` for an event, or null when nothing scores above the review threshold. */
+export function bestDuplicate(candidate: DedupCandidate, rows: ExistingFestival[]): DedupMatch | null {
+  let best: DedupMatch | null = null;
+  for (const row of rows) {
+    if (otherListingOfSource(candidate, row)) continue;
+    const scores = scorePair(candidate, row);
+    if (scores.score < REVIEW_THRESHOLD) continue;
+    if (best && best.scores.score >= scores.score) continue;
+    best = {
+      festivalId: row.id,
+      name: row.title,
+      decision: scores.score >= AUTO_MERGE_THRESHOLD ? "merge" : "review",
+      scores,
+    };
+  }
+
+  return best;
+}
+
+/**
+ * Finds the best existing match for an event, or null when nothing
+ * scores above the review threshold.
+ */
+export async function findDuplicate(
+  candidate: DedupCandidate,
+  excludeId?: string
+): Promise<DedupMatch | null> {
+  return bestDuplicate(candidate, await loadNearbyFestivals(candidate, excludeId));
+}
+
+export async function queueForReview(festivalId: string, match: DedupMatch) {
+  await db
+    .insert(duplicateCandidates)
+    .values({
+      festivalId,
+      duplicateOfId: match.festivalId,
+      score: match.scores.score,
+      reasons: match.scores,
+    })
+    .onConflictDoNothing();
+}
+
+/**
+ * Folds `dropId` into `keepId`: lineup rows, external ids and missing
+ * fields move over, then the duplicate festival row is deleted.
+ */
+export async function mergeFestivals(keepId: string, dropId: string) {
+  const [keep] = await db.select().from(festivals).where(eq(festivals.id, keepId));
+  const [drop] = await db.select().from(festivals).where(eq(festivals.id, dropId));
+  if (!keep || !drop) throw new Error(`Cannot merge ${dropId} into ${keepId}: not found`);
+
+  const dropLineup = await db
+    .select()
+    .from(festivalLineups)
+    .where(eq(festivalLineups.festivalId, dropId));
+
+  for (const { id, festivalId, createdAt, ...row } of dropLineup) {
+    await db
+      .insert(festivalLineups)
+      .values({ ...row, festivalId: keepId })
+      .onConflictDoNothing();
+  }
+
+  const keepMeta = (keep.metadata || {}) as Record<string, unknown>;
+  const dropMeta = (drop.metadata || {}) as Record<string, unknown>;
+
+  // Keep the surviving row's source, but remember every other id it goes by
+  await db
+    .update(festivals)
+    .set({
+      description: keep.description ?? drop.description,
+      startDate: keep.startDate ?? drop.startDate,
+      endDate: keep.endDate ?? drop.endDate,
+      venueId: keep.venueId ?? drop.venueId,
+      websiteUrl: keep.websiteUrl ?? drop.websiteUrl,
+      ticketUrl: keep.ticketUrl ?? drop.ticketUrl,
+      imageUrl: keep.imageUrl ?? drop.imageUrl,
+      metadata: { ...dropMeta, ...keepMeta },
+      updatedAt: new Date(),
+    })
+    .where(eq(festivals.id, keepId));
+
+  await db
+    .update(duplicateCandidates)
+    .set({ status: "merged", reviewedAt: new Date() })
+    .where(
+      and(
+        eq(duplicateCandidates.festivalId, dropId),
+        eq(duplicateCandidates.duplicateOfId, keepId)
+      )
+    );
+
+  await db.delete(festivals).where(eq(festivals.id, dropId));
+}
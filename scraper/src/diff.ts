@@ -0,0 +1,140 @@
+/**
+ * Structured diff of a sync
+ * Collects EventChanges into one report — events to create or update,
+ * lineup moves, new artists and venues, suspected duplicates — and
+ * prints it, or emits it as JSON with --json (cli.ts moves the progress
+ * logs to stderr then, so stdout is only the JSON).
+ */
+import type { EventChange, FieldChange } from "./upsert.js";
+
+export interface DiffEvent {
+  title: string;
+  source: string;
+  values: Record<string, FieldChange>;
+}
+
+export interface SyncDiff {
+  dryRun: boolean;
+  create: DiffEvent[];
+  update: DiffEvent[];
+  lineupAdded: { event: string; artist: string }[];
+  lineupRemoved: { event: string; artist: string }[];
+  newArtists: string[];
+  newVenues: string[];
+  venueUpdates: DiffEvent[];
+  duplicates: { event: string; duplicateOf: string; score: number; decision: string }[];
+  missing: { event: string; cancel: boolean }[];
+}
+
+export interface DiffFlags {
+  dryRun: boolean;
+  json: boolean;
+}
+
+export function createDiff(dryRun: boolean): SyncDiff {
+  return {
+    dryRun,
+    create: [],
+    update: [],
+    lineupAdded: [],
+    lineupRemoved: [],
+    newArtists: [],
+    newVenues: [],
+    venueUpdates: [],
+    duplicates: [],
+    missing: [],
+  };
+}
+
+function addUnique(list: string[], value: string) {
+  if (!list.includes(value)) list.push(value);
+}
+
+export function recordChange(diff: SyncDiff, change: EventChange) {
+  const event = change.title;
+
+  if (change.action === "created") {
+    diff.create.push({ title: event, source: change.source, values: change.values });
+  } else if (change.action === "updated") {
+    diff.update.push({ title: event, source: change.source, values: change.values });
+  }
+
+  diff.lineupAdded.push(...change.artistsAdded.map((artist) => ({ event, artist })));
+  diff.lineupRemoved.push(...change.artistsRemoved.map((artist) => ({ event, artist })));
+  change.newArtists.forEach((name) => addUnique(diff.newArtists, name));
+  if (change.newVenue) addUnique(diff.newVenues, change.newVenue);
+
+  if (change.duplicateOf) {
+    diff.duplicates.push({
+      event,
+      duplicateOf: change.duplicateOf.name,
+      score: Math.round(change.duplicateOf.scores.score * 100) / 100,
+      decision: change.duplicateOf.decision,
+    });
+  }
+}
+
+export function recordMissing(
+  diff: SyncDiff,
+  missing: { flagged: string[]; cancelled: string[] }
+) {
+  diff.missing.push(
+    ...missing.flagged.map((event) => ({ event, cancel: false })),
+    ...missing.cancelled.map((event) => ({ event, cancel: true }))
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "∅";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+export function printDiff(diff: SyncDiff) {
+  console.log(`\n📋 ${diff.dryRun ? "Dry run — would change" : "Changes"}:`);
+
+  const describeUpdate = (e: DiffEvent) =>
+    `${e.title}: ${Object.entries(e.values)
+      .map(([field, v]) => `${field} ${formatValue(v.from)} → ${formatValue(v.to)}`)
+      .join("; ") || "lineup"}`;
+
+  const sections: [string, string[]][] = [
+    ["✨ Create", diff.create.map((e) => `${e.title} (${e.source})`)],
+    ["✏️  Update", diff.update.map(describeUpdate)],
+    ["➕ Lineup additions", diff.lineupAdded.map((l) => `${l.artist} @ ${l.event}`)],
+    ["➖ Lineup removals", diff.lineupRemoved.map((l) => `${l.artist} @ ${l.event}`)],
+    ["🎧 New artists", diff.newArtists],
+    ["📍 New venues", diff.newVenues],
+    ["📍 Venue updates", diff.venueUpdates.map(describeUpdate)],
+    [
+      "🔎 Suspected duplicates",
+      diff.duplicates.map(
+        (d) => `${d.event} ≈ ${d.duplicateOf} (${d.score}, ${d.decision})`
+      ),
+    ],
+    [
+      "❓ Missing from source",
+      diff.missing.map((m) => `${m.event}${m.cancel ? " → cancelled" : ""}`),
+    ],
+  ];
+
+  let empty = true;
+  for (const [heading, lines] of sections) {
+    if (lines.length === 0) continue;
+    empty = false;
+    console.log(`  ${heading} (${lines.length})`);
+    lines.forEach((line) => console.log(`    ${line}`));
+  }
+  if (empty) console.log("  Nothing.");
+}
+
+/**
+ * Writes the diff to stdout as JSON in --json mode, prints it on a dry
+ * run; a normal run has already logged each change as it happened.
+ */
+export function emitDiff(diff: SyncDiff, flags: DiffFlags) {
+  if (flags.json) {
+    process.stdout.write(JSON.stringify(diff, null, 2) + "\n");
+  } else if (flags.dryRun) {
+    printDiff(diff);
+  }
+}
@@ -1,23 +1,56 @@
+/**
+ * Finds recorded sets for artists — on YouTube, SoundCloud and Mixcloud,
+ * see media/ — and stores them on their spotlight
+ * Search results go through the relevance scorer (clip-relevance.ts), so
+ * editors' pins and blocks survive every re-run.
+ *
+ *   festival-pulse enrich videos [--artist <slug>] [--limit N] [--dry-run]
+ */
 import { db } from "./db";
-import { searchYouTube } from "./youtube-search";
-import { eq } from "drizzle-orm";
+import { CommandOptions, EXIT_FAILED, EXIT_OK } from "./options";
+import { clipRules, selectClips } from "./clip-relevance";
+import { loadArtistFacts } from "./artist-facts";
+import { renderTemplateArticle } from "./article-template";
+import { proposeRevision } from "./revisions";
+import { clipKey, searchMedia, toClip, VideoClip } from "./media/index";
+import { asc, eq } from "drizzle-orm";
 import { artists, artistSpotlights } from "../../web/src/db/schema";
 
-async function main() {
+function describeClip(clip: VideoClip): string {
+  const how = clip.pinned ? "pinned" : `score ${clip.score}`;
+  return `${clip.title} (${clip.provider ?? "youtube"}: ${clip.sourceUrl}, ${how})`;
+}
+
+export async function enrichVideosCommand(options: CommandOptions): Promise<number> {
   console.log("Fetching artists...");
-  const allArtists = await db.select().from(artists);
+  let allArtists = await db
+    .select()
+    .from(artists)
+    .where(options.artist ? eq(artists.slug, options.artist) : undefined)
+    .orderBy(asc(artists.name));
+  if (options.artist && allArtists.length === 0) {
+    console.error(`No artist with slug ${options.artist}`);
+    return EXIT_FAILED;
+  }
+  if (options.limit) allArtists = allArtists.slice(0, options.limit);
   console.log(`Found ${allArtists.length} artists`);
 
   for (const artist of allArtists) {
-    console.log(`\nSearching YouTube for: ${artist.name}`);
-    const clips = await searchYouTube(artist.name);
+    console.log(`\nSearching for sets by: ${artist.name}`);
+    const results = (await searchMedia(artist.name)).map((result) => toClip(result));
+    const { clips, rejected } = selectClips(artist.name, results, clipRules(artist.metadata));
 
     if (clips.length === 0) {
-      console.log(`  No clips found, skipping`);
+      console.log(`  No relevant clips among ${results.length} results, skipping`);
       continue;
     }
 
-    console.log(`  Found ${clips.length} clips`);
+    console.log(`  Kept ${clips.length} of ${results.length} results`);
+    if (options.dryRun) {
+      clips.forEach((clip) => console.log(`    ✅ ${describeClip(clip)}`));
+      rejected.forEach(({ clip, reason }) => console.log(`    ❌ ${clip.title} (${reason})`));
+      continue;
+    }
 
     // Check if spotlight exists
     const existing = await db
@@ -27,27 +60,91 @@ async function main() {
       .limit(1);
 
     if (existing.length > 0) {
+      const spotlight = existing[0];
+      // Keep the highlight offsets a reel build found for clips we still use
+      const highlighted = new Map(
+        ((spotlight.videoClips || []) as VideoClip[])
+          .filter((clip) => clip.highlightScore !== undefined)
+          .map((clip) => [clipKey(clip.sourceUrl), clip])
+      );
+      const merged = clips.map((clip) => {
+        const previous = highlighted.get(clipKey(clip.sourceUrl));
+        if (!previous || clip.pinned) return clip;
+        const { startSec, endSec, highlightScore } = previous;
+        return { ...clip, startSec, endSec, highlightScore };
+      });
+
       await db
         .update(artistSpotlights)
-        .set({ videoClips: clips, updatedAt: new Date() })
-        .where(eq(artistSpotlights.id, existing[0].id));
+        .set({ videoClips: merged, updatedAt: new Date() })
+        .where(eq(artistSpotlights.id, spotlight.id));
+
+      // A template article lists the featured sets, so a new one goes up for
+      // review; the old one-line placeholder gets replaced the same way
+      if (
+        spotlight.articleSource === "template" ||
+        (!spotlight.articleSource && spotlight.content.length <= 200)
+      ) {
+        await proposeRevision(spotlight.id, {
+          title: spotlight.title,
+          content: renderTemplateArticle(await loadArtistFacts(artist, merged)),
+          source: "template",
+        });
+      }
       console.log(`  Updated existing spotlight`);
     } else {
+      // Sets show on the artist page right away; the article waits for review
       const slug = `${artist.slug}-featured-sets`;
-      await db.insert(artistSpotlights).values({
-        artistId: artist.id,
-        title: `${artist.name} – Featured Sets`,
-        slug,
-        content: `Featured DJ sets and live performances by ${artist.name}.`,
-        videoClips: clips,
-        status: "published",
-        publishedAt: new Date(),
-      });
-      console.log(`  Created new spotlight`);
+      const title = `${artist.name} – Featured Sets`;
+      const content = renderTemplateArticle(await loadArtistFacts(artist, clips));
+      const [spotlight] = await db
+        .insert(artistSpotlights)
+        .values({ artistId: artist.id, title, slug, content, videoClips: clips, status: "draft" })
+        .returning({ id: artistSpotlights.id });
+      await proposeRevision(spotlight.id, { title, content, source: "template" });
+      console.log(`  Created new draft spotlight`);
     }
   }
 
   console.log("\nDone!");
+  return EXIT_OK;
 }
 
-main().catch(console.error);
+/**
+ * Re-scores stored clips and applies the current pins and blocks —
+ * for clips saved before the scorer, or after an editor changes the rules
+ *
+ *   festival-pulse enrich clean-clips [--artist <slug>] [--dry-run]
+ */
+export async function cleanClipsCommand(options: CommandOptions): Promise<number> {
+  const spotlights = await db
+    .select({ spotlight: artistSpotlights, artist: artists })
+    .from(artistSpotlights)
+    .innerJoin(artists, eq(artistSpotlights.artistId, artists.id))
+    .where(options.artist ? eq(artists.slug, options.artist) : undefined);
+  console.log(`Found ${spotlights.length} spotlights`);
+
+  for (const { spotlight, artist } of spotlights) {
+    const stored = (spotlight.videoClips || []) as VideoClip[];
+    const rules = clipRules(artist.metadata);
+    if (stored.length === 0 && rules.pinned.length === 0) continue;
+
+    // Stored clips were already capped; keep as many as are still good
+    const { clips, rejected } = selectClips(artist.name, stored, rules, Math.max(stored.length, 1));
+    if (JSON.stringify(clips) === JSON.stringify(stored)) continue;
+
+    console.log(
+      `  ${artist.name}: ${options.dryRun ? "would keep" : "kept"} ${clips.length}, ` +
+        `${options.dryRun ? "would drop" : "dropped"} ${rejected.length}`
+    );
+    rejected.forEach(({ clip, reason }) => console.log(`    ❌ ${clip.title} (${reason})`));
+    if (options.dryRun) continue;
+    await db
+      .update(artistSpotlights)
+      .set({ videoClips: clips, updatedAt: new Date() })
+      .where(eq(artistSpotlights.id, spotlight.id));
+  }
+
+  console.log("\nDone!");
+  return EXIT_OK;
+}
@@ -0,0 +1,103 @@
+/**
+ * Offline gazetteer — known places we list events in
+ * Resolves to town-level coordinates without any network calls.
+ */
+import type { GeocodeQuery, Geocoder } from "./types.js";
+
+interface Place {
+  name: string;
+  aliases?: string[];
+  country: string;
+  latitude: number;
+  longitude: number;
+}
+
+const PLACES: Place[] = [
+  { name: "San José", country: "Costa Rica", latitude: 9.9281, longitude: -84.0907 },
+  { name: "Escazú", country: "Costa Rica", latitude: 9.9189, longitude: -84.1397 },
+  { name: "Santa Ana", country: "Costa Rica", latitude: 9.9326, longitude: -84.1826 },
+  { name: "Heredia", country: "Costa Rica", latitude: 9.9981, longitude: -84.1198 },
+  { name: "Alajuela", country: "Costa Rica", latitude: 10.0163, longitude: -84.2116 },
+  { name: "Cartago", country: "Costa Rica", latitude: 9.8644, longitude: -83.9194 },
+  { name: "San Ramón", country: "Costa Rica", latitude: 10.0872, longitude: -84.4703 },
+  { name: "Liberia", country: "Costa Rica", latitude: 10.6346, longitude: -85.4407 },
+  { name: "Tamarindo", country: "Costa Rica", latitude: 10.2993, longitude: -85.8371 },
+  { name: "Nosara", country: "Costa Rica", latitude: 9.9786, longitude: -85.6519 },
+  { name: "Santa Teresa", aliases: ["Mal País", "Malpais"], country: "Costa Rica", latitude: 9.6453, longitude: -85.1686 },
+  { name: "Montezuma", country: "Costa Rica", latitude: 9.6564, longitude: -85.0697 },
+  { name: "Jacó", country: "Costa Rica", latitude: 9.6147, longitude: -84.6289 },
+  { name: "Quepos", aliases: ["Manuel Antonio"], country: "Costa Rica", latitude: 9.4312, longitude: -84.1617 },
+  { name: "Dominical", country: "Costa Rica", latitude: 9.2533, longitude: -83.8617 },
+  { name: "Uvita", country: "Costa Rica", latitude: 9.1603, longitude: -83.7444 },
+  { name: "Puntarenas", country: "Costa Rica", latitude: 9.9763, longitude: -84.8384 },
+  { name: "Puerto Viejo", aliases: ["Puerto Viejo de Talamanca"], country: "Costa Rica", latitude: 9.6561, longitude: -82.7539 },
+  { name: "Limón", aliases: ["Puerto Limón"], country: "Costa Rica", latitude: 9.9907, longitude: -83.0360 },
+];
+
+const COUNTRY_TIMEZONES: Record<string, string> = {
+  "costa rica": "America/Costa_Rica",
+  panama: "America/Panama",
+  nicaragua: "America/Managua",
+  mexico: "America/Mexico_City",
+  colombia: "America/Bogota",
+};
+
+const DEFAULT_TIMEZONE = "America/Costa_Rica";
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function contains(haystack: string, needle: string): boolean {
+  return ` ${haystack} `.includes(` ${needle} `);
+}
+
+export function lookupPlace(text: string, country?: string | null): Place | null {
+  const hay = normalize(text);
+  if (!hay) return null;
+
+  // Longest names first so "Santa Teresa" beats "Santa Ana" substrings
+  const candidates = PLACES.filter(
+    (p) => !country || normalize(p.country) === normalize(country)
+  ).sort((a, b) => b.name.length - a.name.length);
+
+  for (const place of candidates) {
+    const names = [place.name, ...(place.aliases || [])].map(normalize);
+    if (names.some((n) => contains(hay, n))) return place;
+  }
+  return null;
+}
+
+/** IANA timezone for a venue's country, falling back to Costa Rica. */
+export function timezoneFor(country: string | null | undefined): string {
+  return (
+    (country && COUNTRY_TIMEZONES[normalize(country)]) ||
+    process.env.DEFAULT_TIMEZONE ||
+    DEFAULT_TIMEZONE
+  );
+}
+
+export const gazetteerGeocoder: Geocoder = {
+  name: "gazetteer",
+
+  async geocode(query: GeocodeQuery) {
+    for (const text of [query.city, query.address, query.name]) {
+      if (!text) continue;
+      const place = lookupPlace(text, query.country);
+      if (place) {
+        return {
+          latitude: place.latitude,
+          longitude: place.longitude,
+          precision: "city" as const,
+          geocoder: "gazetteer",
+        };
+      }
+    }
+    return null;
+  },
+};
@@ -0,0 +1,48 @@
+/**
+ * Geocoding — offline gazetteer by default
+ * Set GEOCODERS (comma-separated, tried in order) to add network geocoders,
+ * e.g. GEOCODERS=nominatim,gazetteer
+ */
+import { gazetteerGeocoder } from "./gazetteer.js";
+import { nominatimGeocoder } from "./nominatim.js";
+import type { GeocodeQuery, GeocodeResult, Geocoder } from "./types.js";
+
+export * from "./types.js";
+export { lookupPlace, timezoneFor } from "./gazetteer.js";
+
+const GEOCODERS: Record<string, Geocoder> = {
+  [gazetteerGeocoder.name]: gazetteerGeocoder,
+  [nominatimGeocoder.name]: nominatimGeocoder,
+};
+
+let chain: Geocoder[] | null = null;
+
+function defaultChain(): Geocoder[] {
+  const names = (process.env.GEOCODERS || "gazetteer")
+    .split(",")
+    .map((n) => n.trim())
+    .filter(Boolean);
+  return names.map((n) => {
+    const geocoder = GEOCODERS[n];
+    if (!geocoder) throw new Error(`Unknown geocoder "${n}"`);
+    return geocoder;
+  });
+}
+
+/** Replaces the geocoder chain, e.g. to run fully offline with a stub. */
+export function setGeocoders(geocoders: Geocoder[]) {
+  chain = geocoders;
+}
+
+export async function geocode(query: GeocodeQuery): Promise<GeocodeResult | null> {
+  chain ??= defaultChain();
+  for (const geocoder of chain) {
+    try {
+      const result = await geocoder.geocode(query);
+      if (result) return result;
+    } catch (err: any) {
+      console.error(`  Geocoder ${geocoder.name} failed: ${err.message}`);
+    }
+  }
+  return null;
+}
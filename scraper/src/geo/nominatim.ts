@@ -0,0 +1,39 @@
+/**
+ * OpenStreetMap Nominatim geocoder (opt-in, needs network)
+ * Respect the usage policy: one request per second, identify ourselves.
+ */
+import type { GeocodeQuery, Geocoder } from "./types.js";
+
+const NOMINATIM = "https://nominatim.openstreetmap.org/search";
+
+let lastRequestAt = 0;
+
+export const nominatimGeocoder: Geocoder = {
+  name: "nominatim",
+
+  async geocode(query: GeocodeQuery) {
+    const q = [query.name, query.address, query.city, query.country]
+      .filter(Boolean)
+      .join(", ");
+
+    const wait = lastRequestAt + 1100 - Date.now();
+    if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+    lastRequestAt = Date.now();
+
+    const params = new URLSearchParams({ q, format: "jsonv2", limit: "1" });
+    const res = await fetch(`${NOMINATIM}?${params}`, {
+      headers: { "User-Agent": "festival-pulse-scraper" },
+    });
+    if (!res.ok) return null;
+
+    const [hit] = (await res.json()) as { lat: string; lon: string; type: string }[];
+    if (!hit) return null;
+
+    return {
+      latitude: parseFloat(hit.lat),
+      longitude: parseFloat(hit.lon),
+      precision: hit.type === "street" ? ("street" as const) : ("venue" as const),
+      geocoder: "nominatim",
+    };
+  },
+};
@@ -0,0 +1,23 @@
+/**
+ * Geocoder contract
+ * Geocoders are tried in order until one returns coordinates.
+ */
+
+export interface GeocodeQuery {
+  name: string;
+  address: string | null;
+  city: string | null;
+  country: string | null;
+}
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  precision: "venue" | "street" | "city";
+  geocoder: string;
+}
+
+export interface Geocoder {
+  name: string;
+  geocode(query: GeocodeQuery): Promise<GeocodeResult | null>;
+}
@@ -0,0 +1,163 @@
+/**
+ * Highlight detection for reels
+ * Runs a downloaded stretch of a set through ffmpeg's astats (loudness)
+ * and aspectralstats (spectral flux) filters, then slides a window over
+ * it and scores each position on energy, on whether it lands on a drop
+ * (loud right after something quieter) and on how steady the beat is.
+ * Quiet breakdowns and crowd noise between tracks score low.
+ */
+import { runProcess } from "./process.js";
+
+const ANALYSIS_RATE = 22050;
+const FRAME_SAMPLES = 2048; // ~93ms per frame
+const SILENCE_DB = -35;
+const STEP_SEC = 1;
+const DROP_LOOKBACK_SEC = 8;
+const DROP_LOOKAHEAD_SEC = 4;
+
+// Beats 90–150 BPM apart, the range almost every set sits in
+const BEAT_MIN_SEC = 60 / 150;
+const BEAT_MAX_SEC = 60 / 90;
+
+const WEIGHTS = { energy: 0.45, drop: 0.2, beat: 0.35 };
+
+export interface AudioFrame {
+  time: number; // seconds into the file
+  rmsDb: number;
+  flux: number | null; // null on ffmpeg builds without aspectralstats
+}
+
+export interface Highlight {
+  startSec: number; // relative to the analyzed file
+  endSec: number;
+  score: number;
+  energy: number;
+  drop: number;
+  beat: number;
+}
+
+function parseLevel(value: string): number {
+  const level = parseFloat(value);
+  return Number.isFinite(level) ? level : -120; // "-inf" on digital silence
+}
+
+/** Loudness and spectral flux per ~93ms frame of an audio (or video) file. */
+export async function analyzeAudio(file: string, signal?: AbortSignal): Promise<AudioFrame[]> {
+  const frames: AudioFrame[] = [];
+  let current: AudioFrame | null = null;
+
+  // ametadata prints each frame's values to the log, one per line:
+  //   [Parsed_ametadata_5 @ 0x..] frame:12   pts:24576   pts_time:1.11456
+  //   [Parsed_ametadata_5 @ 0x..] lavfi.astats.Overall.RMS_level=-14.2
+  const onLine = (line: string) => {
+    const time = line.match(/pts_time:([\d.]+)/);
+    if (time) {
+      current = { time: parseFloat(time[1]), rmsDb: -120, flux: null };
+      frames.push(current);
+      return;
+    }
+    if (!current) return;
+    const rms = line.match(/lavfi\.astats\.Overall\.RMS_level=(\S+)/);
+    if (rms) current.rmsDb = parseLevel(rms[1]);
+    const flux = line.match(/lavfi\.aspectralstats\.1\.flux=(\S+)/);
+    if (flux) current.flux = parseFloat(flux[1]) || 0;
+  };
+
+  const filters = [
+    "aformat=channel_layouts=mono",
+    `aresample=${ANALYSIS_RATE}`,
+    `asetnsamples=n=${FRAME_SAMPLES}`,
+    "astats=metadata=1:reset=1",
+    "aspectralstats",
+    "ametadata=mode=print",
+  ];
+  await runProcess(
+    "ffmpeg",
+    ["-hide_banner", "-nostats", "-i", file, "-vn", "-af", filters.join(","), "-f", "null", "-"],
+    { timeoutMs: 5 * 60_000, signal, onLine }
+  );
+  return frames;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+/**
+ * How regular the onsets are: the strongest autocorrelation of the onset
+ * envelope at a beat-length lag, 0 (no pulse) to 1 (metronome).
+ */
+function beatStability(onsets: number[], frameSec: number): number {
+  const avg = mean(onsets);
+  const centered = onsets.map((o) => o - avg);
+  const energy = centered.reduce((sum, o) => sum + o * o, 0);
+  if (energy === 0) return 0;
+
+  let best = 0;
+  const minLag = Math.max(1, Math.round(BEAT_MIN_SEC / frameSec));
+  const maxLag = Math.round(BEAT_MAX_SEC / frameSec);
+  for (let lag = minLag; lag <= maxLag && lag < centered.length; lag++) {
+    let sum = 0;
+    for (let i = lag; i < centered.length; i++) sum += centered[i] * centered[i - lag];
+    best = Math.max(best, sum / energy);
+  }
+  return Math.max(0, Math.min(1, best));
+}
+
+/**
+ * The best `count` non-overlapping windows of `length` seconds, best first.
+ * Returns nothing when the audio is shorter than one window.
+ */
+export function findHighlights(frames: AudioFrame[], length: number, count = 1): Highlight[] {
+  if (frames.length < 2) return [];
+  const frameSec = frames[1].time - frames[0].time || FRAME_SAMPLES / ANALYSIS_RATE;
+  const duration = frames[frames.length - 1].time + frameSec;
+  if (duration < length) return [];
+
+  const linear = frames.map((f) => 10 ** (f.rmsDb / 20));
+  // Without spectral flux, rises in loudness stand in for onsets
+  const onsets = frames.map((f, i) =>
+    f.flux ?? Math.max(0, linear[i] - (i > 0 ? linear[i - 1] : linear[i]))
+  );
+  const at = (sec: number) => Math.max(0, Math.min(frames.length, Math.round(sec / frameSec)));
+
+  const candidates: (Highlight & { quiet: number })[] = [];
+  for (let start = 0; start + length <= duration; start += STEP_SEC) {
+    const window = linear.slice(at(start), at(start + length));
+    const before = linear.slice(at(start - DROP_LOOKBACK_SEC), at(start));
+    const opening = linear.slice(at(start), at(start + DROP_LOOKAHEAD_SEC));
+    const silent = frames.slice(at(start), at(start + length)).filter((f) => f.rmsDb < SILENCE_DB);
+
+    candidates.push({
+      startSec: start,
+      endSec: start + length,
+      score: 0,
+      energy: mean(window),
+      drop:
+        before.length > 0 && mean(opening) > 0
+          ? Math.max(0, (mean(opening) - mean(before)) / mean(opening))
+          : 0,
+      beat: beatStability(onsets.slice(at(start), at(start + length)), frameSec),
+      quiet: silent.length / Math.max(1, window.length),
+    });
+  }
+
+  // Energy is relative to the loudest stretch of this recording. A steady
+  // pulse only counts as much as there is to hear: a ticking hi-hat in a
+  // breakdown isn't a highlight.
+  const loudest = Math.max(...candidates.map((c) => c.energy)) || 1;
+  for (const c of candidates) {
+    c.energy = c.energy / loudest;
+    c.beat = c.beat * c.energy;
+    c.score = WEIGHTS.energy * c.energy + WEIGHTS.drop * c.drop + WEIGHTS.beat * c.beat - c.quiet * 0.5;
+  }
+
+  const picked: Highlight[] = [];
+  for (const c of [...candidates].sort((a, b) => b.score - a.score)) {
+    if (picked.length >= count) break;
+    if (picked.some((p) => c.startSec < p.endSec && p.startSec < c.endSec)) continue;
+    const { quiet: _quiet, ...highlight } = c;
+    picked.push({ ...highlight, score: Math.round(c.score * 100) / 100 });
+  }
+  return picked;
+}
@@ -0,0 +1,178 @@
+/**
+ * HTTP for scrapers: retries with exponential backoff, honors 429 /
+ * Retry-After, and can record raw responses to disk or replay them.
+ *
+ *   HTTP_MODE=record   hit the network and save every response
+ *   HTTP_MODE=replay   serve responses from disk only, never touch the network
+ *   HTTP_RECORDINGS_DIR (default ./recordings)
+ *
+ * A recording is found by method, URL and body with any dates in them left
+ * out: sources ask from "now" or today, and a recording should still replay
+ * on a later day. Requests that differ only by date share a recording.
+ */
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+
+export interface RetryOptions {
+  retries?: number; // attempts after the first one
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    public statusText: string,
+    public url: string
+  ) {
+    super(`HTTP ${status} ${statusText}`);
+  }
+}
+
+interface Recording {
+  method: string;
+  url: string;
+  requestBody: string | null;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  recordedAt: string;
+}
+
+const SECRET_PARAMS = ["key", "token", "api_key", "apikey"];
+
+// 2026-02-15, 2026-02-15T23:00:00.000Z, 2026-02-15T23:00:00-06:00
+const DATES = /\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?/g;
+
+function recordingsDir(): string {
+  return path.resolve(process.env.HTTP_RECORDINGS_DIR || "recordings");
+}
+
+function httpMode(): "live" | "record" | "replay" {
+  const mode = process.env.HTTP_MODE;
+  return mode === "record" || mode === "replay" ? mode : "live";
+}
+
+// Keys and tokens never end up in file names or recordings
+function redactUrl(url: string): string {
+  const u = new URL(url);
+  for (const param of SECRET_PARAMS) {
+    if (u.searchParams.has(param)) u.searchParams.set(param, "REDACTED");
+  }
+  return u.toString();
+}
+
+function recordingPath(method: string, url: string, body: string | null): string {
+  const redacted = redactUrl(url);
+  const key = `${method} ${decodeURIComponent(redacted)}\n${body || ""}`.replace(DATES, "<date>");
+  const hash = createHash("sha1").update(key).digest("hex").slice(0, 16);
+  const host = new URL(redacted).hostname.replace(/[^a-z0-9.]+/gi, "_");
+  return path.join(recordingsDir(), host, `${hash}.json`);
+}
+
+function replay(method: string, url: string, body: string | null): Response {
+  const file = recordingPath(method, url, body);
+  if (!existsSync(file)) {
+    throw new Error(`No recording for ${method} ${redactUrl(url)} (${file})`);
+  }
+  const rec = JSON.parse(readFileSync(file, "utf-8")) as Recording;
+  return new Response(rec.body, {
+    status: rec.status,
+    statusText: rec.statusText,
+    headers: rec.headers,
+  });
+}
+
+async function record(
+  method: string,
+  url: string,
+  body: string | null,
+  res: Response
+): Promise<Response> {
+  const text = await res.text();
+  const file = recordingPath(method, url, body);
+  mkdirSync(path.dirname(file), { recursive: true });
+
+  const rec: Recording = {
+    method,
+    url: redactUrl(url),
+    requestBody: body,
+    status: res.status,
+    statusText: res.statusText,
+    headers: Object.fromEntries(res.headers.entries()),
+    body: text,
+    recordedAt: new Date().toISOString(),
+  };
+  writeFileSync(file, JSON.stringify(rec, null, 2));
+
+  return new Response(text, {
+    status: res.status,
+    statusText: res.statusText,
+    headers: res.headers,
+  });
+}
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+// Retry-After is either seconds or an HTTP date
+function retryAfterMs(res: Response): number | null {
+  const header = res.headers.get("retry-after");
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status === 408 || status >= 500;
+}
+
+/**
+ * fetch() with retries. Resolves with the first OK response and throws
+ * HttpError once retries are exhausted or the status isn't worth retrying.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  options: RetryOptions = {}
+): Promise<Response> {
+  const { retries = 4, baseDelayMs = 1000, maxDelayMs = 60_000 } = options;
+  const method = (init.method || "GET").toUpperCase();
+  const body = typeof init.body === "string" ? init.body : null;
+  const mode = httpMode();
+
+  const waitBeforeRetry = async (attempt: number, res: Response | null, reason: string) => {
+    const backoff = baseDelayMs * 2 ** attempt + Math.random() * baseDelayMs;
+    const wait = Math.min(maxDelayMs, (res && retryAfterMs(res)) ?? backoff);
+    console.warn(
+      `  ↻ ${method} ${new URL(url).hostname} failed (${reason}), retry ${attempt + 1}/${retries} in ${Math.round(wait / 1000)}s`
+    );
+    await sleep(wait);
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    try {
+      res = mode === "replay" ? replay(method, url, body) : await fetch(url, init);
+    } catch (err: any) {
+      // Network-level failure (DNS, reset, timeout)
+      if (mode === "replay" || attempt >= retries) throw err;
+      await waitBeforeRetry(attempt, null, err.message);
+      continue;
+    }
+
+    if (mode === "record") res = await record(method, url, body, res);
+    if (res.ok) return res;
+
+    const error = new HttpError(res.status, res.statusText, redactUrl(url));
+    if (mode === "replay" || !isRetryable(res.status) || attempt >= retries) {
+      throw error;
+    }
+    await waitBeforeRetry(attempt, res, error.message);
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Moves events through upcoming → ongoing → past
+ * Run it a few times a day; it only touches events whose status changed.
+ *
+ *   festival-pulse lifecycle
+ */
+import { CommandOptions, EXIT_OK } from "./options.js";
+import { updateEventStatuses } from "./status.js";
+
+export async function lifecycleCommand(_options: CommandOptions): Promise<number> {
+  console.log("🎛️  Festival Pulse — Event Lifecycle\n");
+
+  const moved = await updateEventStatuses();
+  for (const m of moved) {
+    console.log(`  ${m.to === "past" ? "🌙" : "🔴"} ${m.name}: ${m.from} → ${m.to}`);
+  }
+
+  console.log(`\n🏁 Done! ${moved.length} events changed status.`);
+  return EXIT_OK;
+}
@@ -0,0 +1,47 @@
+/**
+ * Database-backed job locks
+ * A lock is a lease row in job_locks: whoever holds an unexpired lease owns
+ * the job. Leases are renewed while the job runs, so a crashed holder only
+ * blocks the job until its lease runs out. Works over neon-http, which
+ * can't hold session-level advisory locks.
+ */
+import { db } from "./db.js";
+import { and, eq, lt } from "drizzle-orm";
+import { hostname } from "os";
+import { jobLocks } from "../../web/src/db/schema.js";
+
+export const LOCK_HOLDER = `${hostname()}:${process.pid}`;
+
+export async function acquireLock(job: string, leaseMs: number): Promise<boolean> {
+  const now = new Date();
+  const lockedUntil = new Date(now.getTime() + leaseMs);
+
+  // Single statement: insert, or take over only an expired lease
+  const rows = await db
+    .insert(jobLocks)
+    .values({ job, holder: LOCK_HOLDER, lockedUntil, acquiredAt: now })
+    .onConflictDoUpdate({
+      target: jobLocks.job,
+      set: { holder: LOCK_HOLDER, runId: null, lockedUntil, acquiredAt: now },
+      setWhere: lt(jobLocks.lockedUntil, now),
+    })
+    .returning({ job: jobLocks.job });
+
+  return rows.length > 0;
+}
+
+export async function renewLock(job: string, leaseMs: number, runId?: string) {
+  await db
+    .update(jobLocks)
+    .set({
+      lockedUntil: new Date(Date.now() + leaseMs),
+      ...(runId ? { runId } : {}),
+    })
+    .where(and(eq(jobLocks.job, job), eq(jobLocks.holder, LOCK_HOLDER)));
+}
+
+export async function releaseLock(job: string) {
+  await db
+    .delete(jobLocks)
+    .where(and(eq(jobLocks.job, job), eq(jobLocks.holder, LOCK_HOLDER)));
+}
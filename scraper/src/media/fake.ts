@@ -0,0 +1,69 @@
+/**
+ * Fake provider — canned results and generated clips, no network
+ * For working on enrichment and the reel pipeline offline:
+ *
+ *   MEDIA_PROVIDERS=fake festival-pulse reel build --artist bob-moses
+ *
+ * Every search returns two sets by the artist and one upload that isn't
+ * theirs, so the relevance scorer has something to reject. Downloads are
+ * an ffmpeg test pattern with a tone, when ffmpeg is installed; the tone
+ * pulses loud for 20s of every minute so highlight detection has a drop
+ * to find.
+ */
+import { existsSync } from "fs";
+import { runProcess } from "../process.js";
+import type { MediaProvider, MediaResult } from "./types.js";
+
+function fakeId(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+export const fakeProvider: MediaProvider = {
+  name: "fake",
+  kind: "video",
+
+  async search(artistName, limit) {
+    const uploads: Omit<MediaResult, "provider" | "id" | "url" | "kind">[] = [
+      { title: `${artistName} live at Envision Festival`, channel: "Envision Festival", durationSec: 3600, uploadDate: "2025-03-10" },
+      { title: `${artistName} | Boiler Room DJ set`, channel: "Boiler Room", durationSec: 4200, uploadDate: "2024-06-01" },
+      { title: "Top 10 beaches in Costa Rica", channel: "Travel Weekly", durationSec: 540, uploadDate: "2023-01-15" },
+    ];
+    return uploads.slice(0, limit).map((upload) => {
+      const id = fakeId(`${artistName} ${upload.title}`);
+      return { ...upload, provider: this.name, id, url: this.urlFor(id), kind: this.kind };
+    });
+  },
+
+  idFromUrl(url) {
+    const match = url.match(/^fake:\/\/media\/([\w-]+)$/);
+    return match ? match[1] : null;
+  },
+
+  urlFor(id) {
+    return `fake://media/${id}`;
+  },
+
+  async download(_url, outputPath, _startSec, durationSec, options = {}) {
+    // Quiet 220Hz tone, with a loud beat-like pulse from 40s to 60s of each minute
+    const tone = `aevalsrc=sin(2*PI*220*t)*(0.05+0.9*gte(mod(t\\,60)\\,40)*lt(mod(t\\,0.5)\\,0.15)):d=${durationSec}`;
+    const pattern = `testsrc2=size=1280x720:rate=30:duration=${durationSec}`;
+    try {
+      await runProcess(
+        "ffmpeg",
+        [
+          "-y",
+          ...(options.audioOnly ? [] : ["-f", "lavfi", "-i", pattern]),
+          "-f", "lavfi", "-i", tone,
+          ...(options.audioOnly ? [] : ["-c:v", "libx264", "-preset", "ultrafast"]),
+          "-c:a", "aac", "-shortest",
+          outputPath,
+        ],
+        { timeoutMs: 60_000, signal: options.signal }
+      );
+      return existsSync(outputPath);
+    } catch (err: any) {
+      console.error(`  Fake download failed: ${err.message}`);
+      return false;
+    }
+  },
+};
@@ -0,0 +1,101 @@
+/**
+ * Media provider registry
+ *
+ *   MEDIA_PROVIDERS   comma-separated providers to search
+ *                     (default youtube,soundcloud,mixcloud; "fake" offline)
+ */
+import { fakeProvider } from "./fake.js";
+import { mixcloudProvider } from "./mixcloud.js";
+import { soundcloudProvider } from "./soundcloud.js";
+import { youtubeProvider } from "./youtube.js";
+import type { MediaKind, MediaProvider, MediaResult, VideoClip } from "./types.js";
+
+export * from "./types.js";
+
+const PROVIDERS: Record<string, MediaProvider> = {
+  [youtubeProvider.name]: youtubeProvider,
+  [soundcloudProvider.name]: soundcloudProvider,
+  [mixcloudProvider.name]: mixcloudProvider,
+  [fakeProvider.name]: fakeProvider,
+};
+
+const DEFAULT_PROVIDERS = ["youtube", "soundcloud", "mixcloud"];
+
+export function getProvider(name: string): MediaProvider | null {
+  return PROVIDERS[name] || null;
+}
+
+export function supportedProviders(): string[] {
+  return Object.keys(PROVIDERS);
+}
+
+export function configuredProviders(kind?: MediaKind): MediaProvider[] {
+  const names = process.env.MEDIA_PROVIDERS
+    ? process.env.MEDIA_PROVIDERS.split(",").map((name) => name.trim()).filter(Boolean)
+    : DEFAULT_PROVIDERS;
+  return names.flatMap((name) => {
+    const provider = getProvider(name);
+    if (!provider) console.warn(`⚠️ Unknown media provider "${name}" in MEDIA_PROVIDERS`);
+    return provider && (!kind || provider.kind === kind) ? [provider] : [];
+  });
+}
+
+/** The provider a URL belongs to and its id there, or null. */
+export function identify(url: string): { provider: MediaProvider; id: string } | null {
+  for (const provider of Object.values(PROVIDERS)) {
+    const id = provider.idFromUrl(url);
+    if (id) return { provider, id };
+  }
+  return null;
+}
+
+/**
+ * "youtube:dQw4w9WgXcQ" — one key per upload whatever URL form it came in.
+ * A bare YouTube id counts too, which is how blocks were stored at first.
+ */
+export function clipKey(url: string): string | null {
+  const found = identify(url);
+  if (found) return `${found.provider.name}:${found.id}`;
+  return /^[\w-]{11}$/.test(url) ? `youtube:${url}` : null;
+}
+
+/**
+ * Searches every configured provider (of one kind, if given). A provider
+ * that fails is logged and skipped; the others still count.
+ */
+export async function searchMedia(
+  artistName: string,
+  options: { kind?: MediaKind; limit?: number } = {}
+): Promise<MediaResult[]> {
+  const results: MediaResult[] = [];
+  for (const provider of configuredProviders(options.kind)) {
+    try {
+      results.push(...(await provider.search(artistName, options.limit ?? 10)));
+    } catch (err: any) {
+      console.error(`  ${provider.name} search failed for ${artistName}: ${err.message}`);
+    }
+  }
+  return results;
+}
+
+/**
+ * The window of an upload to use: from ~30% in (past the intro, into the
+ * good stuff), `length` seconds long, or the whole thing if it's shorter.
+ */
+export function clipWindow(durationSec: number | null, length: number) {
+  const duration = durationSec || 3600;
+  const startSec = Math.round(duration * 0.3);
+  return { startSec, endSec: Math.min(startSec + length, Math.round(duration)) };
+}
+
+export function toClip(result: MediaResult, length = 60): VideoClip {
+  return {
+    provider: result.provider,
+    sourceUrl: result.url,
+    ...clipWindow(result.durationSec, length),
+    title: result.title,
+    channel: result.channel,
+    durationSec: result.durationSec,
+    uploadDate: result.uploadDate,
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Mixcloud — long-form mixes and radio shows
+ * yt-dlp can download from Mixcloud but not search it, so search goes
+ * through the public API (no key needed).
+ */
+import { fetchWithRetry } from "../http.js";
+import { ytdlpDownload } from "./ytdlp.js";
+import type { MediaProvider } from "./types.js";
+
+const MIXCLOUD_API = "https://api.mixcloud.com";
+
+interface MixcloudCloudcast {
+  key: string; // "/user/show-name/"
+  url: string;
+  name: string;
+  audio_length: number | null;
+  created_time: string | null;
+  user: { name: string; username: string };
+}
+
+export const mixcloudProvider: MediaProvider = {
+  name: "mixcloud",
+  kind: "audio",
+
+  async search(artistName, limit) {
+    const params = new URLSearchParams({ q: artistName, type: "cloudcast", limit: String(limit) });
+    const res = await fetchWithRetry(`${MIXCLOUD_API}/search/?${params}`);
+    const { data } = (await res.json()) as { data: MixcloudCloudcast[] };
+
+    return data.map((cloudcast) => ({
+      provider: this.name,
+      id: cloudcast.key.replace(/^\/|\/$/g, ""),
+      url: cloudcast.url,
+      title: cloudcast.name,
+      channel: cloudcast.user.name,
+      durationSec: cloudcast.audio_length,
+      uploadDate: cloudcast.created_time?.slice(0, 10) ?? null,
+      kind: this.kind,
+    }));
+  },
+
+  idFromUrl(url) {
+    const match = url.match(/^https?:\/\/(?:www\.)?mixcloud\.com\/([\w-]+\/[\w-]+)\/?(?:[?#].*)?$/);
+    return match ? match[1] : null;
+  },
+
+  urlFor(id) {
+    return `https://www.mixcloud.com/${id}/`;
+  },
+
+  async download(url, outputPath, startSec, durationSec, options) {
+    return ytdlpDownload(url, outputPath, startSec, durationSec, this.kind, options);
+  },
+};
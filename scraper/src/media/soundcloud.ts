@@ -0,0 +1,28 @@
+/**
+ * SoundCloud — where most DJs post their own recorded sets
+ */
+import { ytdlpDownload, ytdlpSearch } from "./ytdlp.js";
+import type { MediaProvider } from "./types.js";
+
+export const soundcloudProvider: MediaProvider = {
+  name: "soundcloud",
+  kind: "audio",
+
+  async search(artistName, limit) {
+    return ytdlpSearch(this.name, this.kind, "scsearch", `${artistName} set`, limit);
+  },
+
+  // Tracks have no stable short id in the URL; "user/track" is the key
+  idFromUrl(url) {
+    const match = url.match(/^https?:\/\/(?:www\.|m\.)?soundcloud\.com\/([\w-]+\/[\w-]+)\/?(?:[?#].*)?$/);
+    return match ? match[1] : null;
+  },
+
+  urlFor(id) {
+    return `https://soundcloud.com/${id}`;
+  },
+
+  async download(url, outputPath, startSec, durationSec, options) {
+    return ytdlpDownload(url, outputPath, startSec, durationSec, this.kind, options);
+  },
+};
@@ -0,0 +1,58 @@
+/**
+ * Media provider contract
+ * A provider finds an artist's recorded sets on one platform and
+ * downloads pieces of them. Everything downstream — the relevance scorer,
+ * enrichment, the reel pipeline — works on MediaResults and VideoClips,
+ * never on a platform's own shapes.
+ */
+
+export type MediaKind = "video" | "audio";
+
+export interface MediaResult {
+  provider: string; // "youtube", "soundcloud", "mixcloud"...
+  id: string; // the provider's own id for the upload
+  url: string;
+  title: string;
+  channel: string | null; // uploader
+  durationSec: number | null;
+  uploadDate: string | null; // YYYY-MM-DD
+  kind: MediaKind;
+}
+
+// What's stored in artist_spotlights.videoClips
+export interface VideoClip {
+  provider?: string; // missing on clips stored before providers: those are YouTube
+  sourceUrl: string;
+  startSec: number;
+  endSec: number;
+  title: string;
+  // What the relevance scorer saw; missing on clips stored before it
+  channel?: string | null;
+  durationSec?: number | null;
+  uploadDate?: string | null; // YYYY-MM-DD
+  score?: number;
+  pinned?: boolean;
+  highlightScore?: number; // set once startSec/endSec come from highlights.ts
+}
+
+export interface DownloadOptions {
+  signal?: AbortSignal; // cancels the download
+  audioOnly?: boolean; // just the sound, for highlight detection
+}
+
+export interface MediaProvider {
+  name: string;
+  kind: MediaKind;
+  search(artistName: string, limit: number): Promise<MediaResult[]>;
+  // The provider's id for one of its URLs, or null when the URL isn't theirs
+  idFromUrl(url: string): string | null;
+  urlFor(id: string): string;
+  // Saves startSec..startSec+durationSec of an upload to outputPath
+  download(
+    url: string,
+    outputPath: string,
+    startSec: number,
+    durationSec: number,
+    options?: DownloadOptions
+  ): Promise<boolean>;
+}
@@ -0,0 +1,28 @@
+/**
+ * YouTube — filmed sets, the only provider a reel can be cut from
+ */
+import { ytdlpDownload, ytdlpSearch } from "./ytdlp.js";
+import type { MediaProvider } from "./types.js";
+
+export const youtubeProvider: MediaProvider = {
+  name: "youtube",
+  kind: "video",
+
+  async search(artistName, limit) {
+    // Without the extra words YouTube ranks music videos over sets
+    return ytdlpSearch(this.name, this.kind, "ytsearch", `${artistName} DJ set live performance`, limit);
+  },
+
+  idFromUrl(url) {
+    const match = url.match(/(?:youtube\.com\/(?:watch\?(?:.*&)?v=|shorts\/|embed\/)|youtu\.be\/)([\w-]{11})/);
+    return match ? match[1] : null;
+  },
+
+  urlFor(id) {
+    return `https://www.youtube.com/watch?v=${id}`;
+  },
+
+  async download(url, outputPath, startSec, durationSec, options) {
+    return ytdlpDownload(url, outputPath, startSec, durationSec, this.kind, options);
+  },
+};
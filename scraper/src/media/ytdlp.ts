@@ -0,0 +1,99 @@
+/**
+ * yt-dlp helpers shared by the providers it supports
+ * It searches YouTube and SoundCloud and downloads from all three
+ * platforms, so providers differ mostly in their search prefix.
+ */
+import { existsSync } from "fs";
+import { runProcess } from "../process.js";
+import type { DownloadOptions, MediaKind, MediaResult } from "./types.js";
+
+const FIELD_SEPARATOR = "|||";
+const SEARCH_TIMEOUT_MS = 30_000;
+const DOWNLOAD_TIMEOUT_MS = 5 * 60_000;
+
+// yt-dlp and its JS runtime are often installed per-user
+const ENV = {
+  ...process.env,
+  PATH: `${process.env.HOME}/.deno/bin:${process.env.HOME}/.local/bin:${process.env.PATH}`,
+};
+
+// yt-dlp prints "NA" for fields a flat search result doesn't carry
+function field(value: string | undefined): string | null {
+  return value && value !== "NA" ? value : null;
+}
+
+/** Runs a yt-dlp search ("ytsearch", "scsearch") and normalizes the results. */
+export async function ytdlpSearch(
+  provider: string,
+  kind: MediaKind,
+  prefix: string,
+  query: string,
+  limit: number
+): Promise<MediaResult[]> {
+  const format = ["%(id)s", "%(webpage_url,url)s", "%(title)s", "%(duration)s", "%(channel,uploader)s", "%(upload_date)s"].join(
+    FIELD_SEPARATOR
+  );
+  const { stdout } = await runProcess(
+    "yt-dlp",
+    [`${prefix}${limit}:${query}`, "--flat-playlist", "--no-download", "--print", format],
+    { env: ENV, timeoutMs: SEARCH_TIMEOUT_MS }
+  );
+
+  return stdout.trim().split("\n").filter(Boolean).map((line) => {
+    const [id, url, title, duration, channel, uploaded] = line.split(FIELD_SEPARATOR);
+    const date = field(uploaded);
+    return {
+      provider,
+      id,
+      url,
+      title,
+      channel: field(channel),
+      durationSec: parseFloat(duration) || null,
+      uploadDate: date ? `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}` : null,
+      kind,
+    };
+  });
+}
+
+/** Downloads one section of an upload; audio-only platforms come back as m4a. */
+export async function ytdlpDownload(
+  url: string,
+  outputPath: string,
+  startSec: number,
+  durationSec: number,
+  kind: MediaKind,
+  options: DownloadOptions = {}
+): Promise<boolean> {
+  const format =
+    kind === "video" && !options.audioOnly
+      ? ["-f", "bestvideo[height<=720]+bestaudio/best[height<=720]", "--merge-output-format", "mp4"]
+      : ["-f", "bestaudio", "-x", "--audio-format", "m4a"];
+
+  // Progress every 25% rather than yt-dlp's several lines a second
+  let reported = 0;
+  const onLine = (line: string) => {
+    const percent = line.match(/^\[download\]\s+([\d.]+)%/);
+    if (!percent || Number(percent[1]) < reported + 25) return;
+    reported = Math.floor(Number(percent[1]) / 25) * 25;
+    console.log(`     ${reported}%`);
+  };
+
+  try {
+    await runProcess(
+      "yt-dlp",
+      [
+        ...format,
+        "--download-sections", `*${startSec}-${startSec + durationSec}`,
+        "--no-playlist",
+        "--newline",
+        "-o", outputPath,
+        "--", url,
+      ],
+      { env: ENV, timeoutMs: DOWNLOAD_TIMEOUT_MS, signal: options.signal, onLine }
+    );
+    return existsSync(outputPath);
+  } catch (err: any) {
+    console.error(`  Download failed for ${url}: ${err.message}`);
+    return false;
+  }
+}
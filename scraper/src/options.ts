@@ -0,0 +1,30 @@
+/**
+ * Flags shared by every festival-pulse command (see cli.ts)
+ */
+export interface CommandOptions {
+  args: string[]; // positionals after the command words
+  source?: string; // scrape_sources id
+  artist?: string; // artist slug
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+  limit?: number;
+  dryRun: boolean;
+  json: boolean;
+}
+
+// Exit codes every command returns, so cron and the scheduler can tell them apart
+export const EXIT_OK = 0;
+export const EXIT_FAILED = 1;
+export const EXIT_USAGE = 2;
+
+/** --from/--to, defaulting to today through `daysAhead` days out. */
+export function dateRange(options: CommandOptions, daysAhead: number) {
+  const today = new Date().toISOString().split("T")[0];
+  const until = new Date();
+  until.setDate(until.getDate() + daysAhead);
+
+  return {
+    from: options.from || today,
+    to: options.to || until.toISOString().split("T")[0],
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Child processes for yt-dlp, ffmpeg and the scheduler's jobs
+ * Arguments go to the program as an array, never through a shell, so an
+ * artist name or video title can't break the command line. Output
+ * streams line by line while the process runs, failures come back as a
+ * ProcessError carrying the tail of stderr, and every run has a timeout
+ * and can be cancelled with an AbortSignal.
+ */
+import { spawn } from "child_process";
+
+const DEFAULT_TIMEOUT_MS = 10 * 60_000;
+const KILL_GRACE_MS = 10_000; // SIGTERM first, SIGKILL if it's still there
+const MAX_STDOUT_CHARS = 10_000_000;
+const STDERR_TAIL_CHARS = 4000;
+
+export interface RunOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  // Each line of output as it arrives; ffmpeg's \r-separated progress counts
+  onLine?: (line: string, stream: "stdout" | "stderr") => void;
+  onStart?: (pid: number) => void;
+}
+
+export interface RunResult {
+  stdout: string;
+  stderr: string; // the tail
+  durationMs: number;
+}
+
+export type ProcessFailure = "spawn" | "exit" | "timeout" | "cancelled";
+
+export class ProcessError extends Error {
+  constructor(
+    public reason: ProcessFailure,
+    public command: string,
+    public args: string[],
+    public exitCode: number | null,
+    public stderr: string,
+    detail: string
+  ) {
+    super(`${command} ${detail}${lastLine(stderr) ? `: ${lastLine(stderr)}` : ""}`);
+  }
+}
+
+function lastLine(text: string): string {
+  return text.trim().split(/[\r\n]+/).pop() || "";
+}
+
+// Calls onLine per complete line; keeps the unfinished remainder for later
+function lineSplitter(onLine: (line: string) => void) {
+  let buffer = "";
+  return {
+    push(text: string) {
+      buffer += text;
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = lines.pop()!;
+      lines.filter(Boolean).forEach(onLine);
+    },
+    flush() {
+      if (buffer) onLine(buffer);
+      buffer = "";
+    },
+  };
+}
+
+/**
+ * Runs a program to completion. Resolves with its output when it exits 0;
+ * rejects with a ProcessError when it can't start, exits non-zero, times
+ * out or is cancelled.
+ */
+export function runProcess(
+  command: string,
+  args: string[],
+  options: RunOptions = {}
+): Promise<RunResult> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, signal, onLine } = options;
+  const startedAt = Date.now();
+
+  return new Promise((resolve, reject) => {
+    let stdout = "";
+    let stderr = "";
+    const fail = (reason: ProcessFailure, exitCode: number | null, detail: string) =>
+      reject(new ProcessError(reason, command, args, exitCode, stderr, detail));
+
+    if (signal?.aborted) return fail("cancelled", null, "cancelled before it started");
+
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      env: options.env ?? process.env,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    if (child.pid) options.onStart?.(child.pid);
+
+    const lines = {
+      stdout: lineSplitter((line) => onLine?.(line, "stdout")),
+      stderr: lineSplitter((line) => onLine?.(line, "stderr")),
+    };
+    // Decoded by the stream, so a character split across chunks stays whole
+    child.stdout!.setEncoding("utf8");
+    child.stderr!.setEncoding("utf8");
+    child.stdout!.on("data", (text: string) => {
+      if (stdout.length < MAX_STDOUT_CHARS) stdout += text;
+      lines.stdout.push(text);
+    });
+    child.stderr!.on("data", (text: string) => {
+      stderr = (stderr + text).slice(-STDERR_TAIL_CHARS);
+      lines.stderr.push(text);
+    });
+
+    let stopped: "timeout" | "cancelled" | null = null;
+    const stop = (why: "timeout" | "cancelled") => {
+      if (stopped) return;
+      stopped = why;
+      child.kill("SIGTERM");
+      setTimeout(() => child.kill("SIGKILL"), KILL_GRACE_MS).unref();
+    };
+    const timer = setTimeout(() => stop("timeout"), timeoutMs);
+    const onAbort = () => stop("cancelled");
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const cleanUp = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    child.on("error", (err) => {
+      cleanUp();
+      fail("spawn", null, `couldn't start (${err.message})`);
+    });
+    child.on("close", (code, killedBy) => {
+      cleanUp();
+      lines.stdout.flush();
+      lines.stderr.flush();
+
+      if (stopped === "timeout") return fail("timeout", code, `timed out after ${timeoutMs / 1000}s`);
+      if (stopped === "cancelled") return fail("cancelled", code, "cancelled");
+      if (code !== 0) {
+        return fail("exit", code, `exited with ${killedBy ? `signal ${killedBy}` : `code ${code}`}`);
+      }
+      resolve({ stdout, stderr, durationMs: Date.now() - startedAt });
+    });
+  });
+}
+
+/**
+ * Runs fn over items with at most `concurrency` in flight. Settles every
+ * item, like Promise.allSettled, so one failed download doesn't hide the rest.
+ */
+export async function runConcurrently<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+  return results;
+}
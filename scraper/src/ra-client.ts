@@ -2,6 +2,7 @@
  * Resident Advisor GraphQL client
  * Fetches events/festivals from ra.co/graphql
  */
+import { fetchWithRetry } from "./http.js";
 
 const RA_GRAPHQL = "https://ra.co/graphql";
 
@@ -54,6 +55,7 @@ const EVENT_LISTINGS_QUERY = `
           artists {
             id
             name
+            contentUrl
           }
           __typename
         }
@@ -84,7 +86,7 @@ export interface RAEvent {
       country: { id: string; name: string };
     };
   };
-  artists: { id: string; name: string }[];
+  artists: { id: string; name: string; contentUrl?: string | null }[];
 }
 
 export interface RAEventListing {
@@ -94,12 +96,39 @@ export interface RAEventListing {
 }
 
 interface RAResponse {
-  data: {
-    eventListings: {
+  data?: {
+    eventListings?: {
       data: RAEventListing[];
       totalResults: number;
-    };
-  };
+    } | null;
+  } | null;
+  errors?: { message: string; path?: (string | number)[] }[];
+}
+
+export interface RAFetchResult {
+  listings: RAEventListing[];
+  totalResults: number | null;
+  partial: boolean; // some pages or listings could not be read
+  errors: string[];
+}
+
+// Fields the sync relies on; anything missing means RA changed its schema
+const REQUIRED_EVENT_FIELDS = ["id", "title", "date", "artists"] as const;
+
+/**
+ * Returns the required fields missing from a listing. An empty array means
+ * the listing has the shape we expect.
+ */
+export function checkListingShape(listing: unknown): string[] {
+  const event = (listing as { event?: Record<string, unknown> } | null)?.event;
+  if (!event || typeof event !== "object") return ["event"];
+  const missing: string[] = REQUIRED_EVENT_FIELDS.filter(
+    (field) => event[field] === undefined || event[field] === null
+  ).map((field) => `event.${field}`);
+  if (event.artists !== undefined && !Array.isArray(event.artists)) {
+    missing.push("event.artists[]");
+  }
+  return missing;
 }
 
 export async function fetchRAEvents(
@@ -107,8 +136,12 @@ export async function fetchRAEvents(
   dateGte: string,
   dateLte: string,
   pageSize = 20
-): Promise<RAEventListing[]> {
+): Promise<RAFetchResult> {
   const allEvents: RAEventListing[] = [];
+  const errors: string[] = [];
+  const drift = new Set<string>();
+  let totalResults: number | null = null;
+  let partial = false;
   let page = 1;
 
   while (true) {
@@ -127,33 +160,64 @@ export async function fetchRAEvents(
       },
     };
 
-    const res = await fetch(RA_GRAPHQL, {
-      method: "POST",
-      headers: HEADERS,
-      body: JSON.stringify(payload),
-    });
-
-    if (!res.ok) {
-      console.error(`RA API error: ${res.status} ${res.statusText}`);
+    let json: RAResponse;
+    try {
+      const res = await fetchWithRetry(RA_GRAPHQL, {
+        method: "POST",
+        headers: HEADERS,
+        body: JSON.stringify(payload),
+      });
+      json = (await res.json()) as RAResponse;
+    } catch (err: any) {
+      errors.push(`RA page ${page}: ${err.message}`);
+      partial = true;
       break;
     }
 
-    const json = (await res.json()) as RAResponse;
-    const listings = json.data?.eventListings?.data;
+    if (json.errors?.length) {
+      errors.push(
+        ...json.errors.map((e) => `RA page ${page}: GraphQL ${e.message}`)
+      );
+      partial = true;
+    }
+
+    const connection = json.data?.eventListings;
+    if (!connection || !Array.isArray(connection.data)) {
+      // Without data there's nothing left to page through
+      if (!json.errors?.length) {
+        errors.push(`RA page ${page}: schema drift, no eventListings.data`);
+      }
+      partial = true;
+      break;
+    }
 
-    if (!listings || listings.length === 0) break;
+    totalResults = connection.totalResults ?? totalResults;
+    const listings = connection.data;
+    if (listings.length === 0) break;
 
-    allEvents.push(...listings);
+    for (const listing of listings) {
+      const missing = checkListingShape(listing);
+      if (missing.length === 0) {
+        allEvents.push(listing);
+        continue;
+      }
+      missing.forEach((m) => drift.add(m));
+      partial = true;
+    }
     console.log(`  Page ${page}: ${listings.length} events (total: ${allEvents.length})`);
 
-    if (allEvents.length >= json.data.eventListings.totalResults) break;
+    if (totalResults !== null && page * pageSize >= totalResults) break;
 
     page++;
     // Rate limiting - be respectful
     await new Promise((r) => setTimeout(r, 1500));
   }
 
-  return allEvents;
+  if (drift.size > 0) {
+    errors.push(`RA schema drift: listings missing ${[...drift].join(", ")}`);
+  }
+
+  return { listings: allEvents, totalResults, partial, errors };
 }
 
 // RA Area codes for major techno cities
@@ -0,0 +1,137 @@
+/**
+ * Reels for a whole festival lineup
+ * Builds a reel for every artist on the festival, a few at a time. An
+ * artist whose reel was built after they joined this lineup, and not too
+ * long ago, is skipped: it already carries the right overlay. One artist
+ * failing doesn't stop the others; the report at the end lists what was
+ * built, skipped and failed.
+ *
+ *   festival-pulse reel batch <festival-slug> [--limit N] [--dry-run] [--json]
+ *
+ *   REEL_CONCURRENCY   artists built at once (default 2)
+ */
+import { db } from "./db.js";
+import { CommandOptions, EXIT_FAILED, EXIT_OK, EXIT_USAGE } from "./options.js";
+import { runConcurrently } from "./process.js";
+import { generateArtistReel, pruneDownloadCache, SITE_FORMAT } from "./video-pipeline.js";
+import { asc, desc, eq } from "drizzle-orm";
+import {
+  artists,
+  artistSpotlights,
+  festivalLineups,
+  festivals,
+} from "../../web/src/db/schema.js";
+
+const FRESH_DAYS = 30;
+const concurrency = parseInt(process.env.REEL_CONCURRENCY || "2", 10);
+
+interface BatchReport {
+  festival: string;
+  built: { artist: string; url: string }[];
+  skipped: { artist: string; reason: string }[];
+  failed: { artist: string; error: string }[];
+}
+
+type LineupArtist = Awaited<ReturnType<typeof loadLineup>>[number];
+
+async function loadLineup(festivalId: string) {
+  const rows = await db
+    .select({
+      artist: artists,
+      announcedAt: festivalLineups.announcedAt,
+      reelBuiltAt: artistSpotlights.reelBuiltAt,
+    })
+    .from(festivalLineups)
+    .innerJoin(artists, eq(festivalLineups.artistId, artists.id))
+    .leftJoin(artistSpotlights, eq(artistSpotlights.artistId, artists.id))
+    .where(eq(festivalLineups.festivalId, festivalId))
+    .orderBy(desc(festivalLineups.isHeadliner), asc(artists.name));
+
+  // An artist with more than one spotlight shows up once, with its newest reel
+  const byArtist = new Map<string, (typeof rows)[number]>();
+  for (const row of rows) {
+    const seen = byArtist.get(row.artist.id);
+    if (!seen || (row.reelBuiltAt && (!seen.reelBuiltAt || row.reelBuiltAt > seen.reelBuiltAt))) {
+      byArtist.set(row.artist.id, row);
+    }
+  }
+  return [...byArtist.values()];
+}
+
+// Why an artist doesn't need a new reel, or null when they do
+function freshReason(entry: LineupArtist, now: Date): string | null {
+  const builtAt = entry.reelBuiltAt;
+  if (!builtAt) return null;
+  if (entry.announcedAt && builtAt < entry.announcedAt) return null;
+  const days = Math.floor((now.getTime() - builtAt.getTime()) / 86_400_000);
+  return days < FRESH_DAYS ? `built ${days === 0 ? "today" : `${days}d ago`}` : null;
+}
+
+function printReport(report: BatchReport) {
+  console.log(
+    `\n🏁 Reels for ${report.festival}: ${report.built.length} built, ` +
+      `${report.skipped.length} skipped, ${report.failed.length} failed`
+  );
+  report.built.forEach((r) => console.log(`  ✅ ${r.artist} — ${r.url}`));
+  report.skipped.forEach((r) => console.log(`  ⏭️  ${r.artist} (${r.reason})`));
+  report.failed.forEach((r) => console.log(`  ❌ ${r.artist}: ${r.error}`));
+}
+
+export async function reelBatchCommand(options: CommandOptions): Promise<number> {
+  const slug = options.args[0];
+  if (!slug) {
+    console.error("reel batch needs a festival slug");
+    return EXIT_USAGE;
+  }
+
+  const [festival] = await db.select().from(festivals).where(eq(festivals.slug, slug));
+  if (!festival) {
+    console.error(`No festival with slug ${slug}`);
+    return EXIT_FAILED;
+  }
+
+  const lineup = await loadLineup(festival.id);
+  const now = new Date();
+  const report: BatchReport = { festival: festival.name, built: [], skipped: [], failed: [] };
+
+  let pending: LineupArtist[] = [];
+  for (const entry of lineup) {
+    const reason = freshReason(entry, now);
+    if (reason) report.skipped.push({ artist: entry.artist.name, reason });
+    else pending.push(entry);
+  }
+  if (options.limit && pending.length > options.limit) {
+    for (const entry of pending.slice(options.limit)) {
+      report.skipped.push({ artist: entry.artist.name, reason: "over --limit" });
+    }
+    pending = pending.slice(0, options.limit);
+  }
+
+  console.log(
+    `🎬 ${festival.name}: ${lineup.length} artists, ${pending.length} reels to build ` +
+      `(${concurrency} at a time)`
+  );
+  if (options.dryRun) {
+    pending.forEach((entry) => console.log(`  Would build: ${entry.artist.name}`));
+    report.skipped.forEach((r) => console.log(`  Skip: ${r.artist} (${r.reason})`));
+    return EXIT_OK;
+  }
+
+  pruneDownloadCache();
+  const results = await runConcurrently(pending, concurrency, (entry) =>
+    generateArtistReel(entry.artist)
+  );
+  results.forEach((result, i) => {
+    const artist = pending[i].artist.name;
+    if (result.status === "rejected") {
+      report.failed.push({ artist, error: result.reason?.message ?? String(result.reason) });
+      return;
+    }
+    const site = result.value.reels.find((r) => r.format === SITE_FORMAT) ?? result.value.reels[0];
+    report.built.push({ artist, url: site.url });
+  });
+
+  if (options.json) process.stdout.write(JSON.stringify(report, null, 2) + "\n");
+  else printReport(report);
+  return report.failed.length > 0 ? EXIT_FAILED : EXIT_OK;
+}
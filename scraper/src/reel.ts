@@ -0,0 +1,224 @@
+/**
+ * Reel rendering
+ * Turns downloaded clips into finished reels: an intro card with the
+ * artist and their next gig, the clips with a lower-third overlay and
+ * crossfades between them, and an outro card. One render per format
+ * (9:16 for Reels and Stories, 1:1 for feed posts, 16:9 for the website)
+ * plus a poster frame for each.
+ *
+ * Overlay text goes to drawtext through text files in the working
+ * directory rather than inline, so names with quotes, colons or commas
+ * need no filtergraph escaping. Set REEL_FONT to a fontconfig family to
+ * change the typeface.
+ */
+import { existsSync, writeFileSync } from "fs";
+import path from "path";
+import { runProcess } from "./process.js";
+
+// How much of each set a reel uses; downloads are cut to this length
+export const CLIP_SECONDS = 20;
+
+const FPS = 30;
+const CARD_SECONDS = 2.5;
+const FADE_SECONDS = 0.5;
+const FONT = process.env.REEL_FONT || "Sans";
+const BRAND = "Festival Pulse";
+
+export interface ReelFormat {
+  name: string; // used in file names
+  aspect: string;
+  width: number;
+  height: number;
+}
+
+export const REEL_FORMATS: ReelFormat[] = [
+  { name: "vertical", aspect: "9:16", width: 1080, height: 1920 },
+  { name: "square", aspect: "1:1", width: 1080, height: 1080 },
+  { name: "landscape", aspect: "16:9", width: 1920, height: 1080 },
+];
+
+/** What the cards and lower third say; everything but the artist is optional. */
+export interface ReelOverlay {
+  artist: string;
+  event?: string;
+  date?: string; // YYYY-MM-DD
+  venue?: string;
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// "Sat, Mar 14, 2026 · Vértigo" — whichever parts we have
+function detailLine(overlay: ReelOverlay): string {
+  return [overlay.date && formatDate(overlay.date), overlay.venue].filter(Boolean).join(" · ");
+}
+
+/**
+ * Writes each piece of overlay text to its own file in workDir and
+ * returns drawtext filters keyed by where they go
+ */
+function textFilters(overlay: ReelOverlay, format: ReelFormat, workDir: string) {
+  const unit = Math.min(format.width, format.height);
+  const margin = Math.round(unit * 0.06);
+  let files = 0;
+
+  const text = (value: string, size: number, y: string, color = "white") => {
+    const file = `reel_text_${files++}.txt`;
+    writeFileSync(path.join(workDir, file), value);
+    return (
+      `drawtext=textfile=${file}:expansion=none:font=${FONT}:fontcolor=${color}` +
+      `:fontsize=${Math.round(unit * size)}:x=(w-text_w)/2:y=${y}` +
+      `:shadowcolor=black@0.6:shadowx=2:shadowy=2`
+    );
+  };
+
+  const details = detailLine(overlay);
+  const intro = [
+    text(overlay.artist, 0.09, `(h/2)-text_h-${Math.round(unit * 0.02)}`),
+    overlay.event && text(overlay.event, 0.045, `(h/2)+${Math.round(unit * 0.03)}`),
+    details && text(details, 0.035, `(h/2)+${Math.round(unit * 0.1)}`, "white@0.8"),
+  ];
+  const lowerThird = [
+    text(overlay.artist, 0.06, `h-${margin}-${Math.round(unit * 0.05)}-th`),
+    (overlay.event || details) &&
+      text([overlay.event, details].filter(Boolean).join(" · "), 0.03, `h-${margin}-th`, "white@0.85"),
+  ];
+  const outro = [
+    text(BRAND, 0.07, "(h-text_h)/2"),
+    overlay.event && text(overlay.event, 0.035, `(h/2)+${Math.round(unit * 0.06)}`, "white@0.8"),
+  ];
+
+  const join = (parts: (string | undefined | false | "")[]) => parts.filter(Boolean).join(",");
+  return { intro: join(intro), lowerThird: join(lowerThird), outro: join(outro) };
+}
+
+function reportProgress(totalSec: number) {
+  // -progress writes out_time_us=... lines; report every 25%
+  let reported = 0;
+  return (line: string) => {
+    const done = line.match(/^out_time_us=(\d+)/);
+    if (!done) return;
+    const percent = Math.floor((Number(done[1]) / (totalSec * 1_000_000)) * 4) * 25;
+    if (percent <= reported || percent > 100) return;
+    reported = percent;
+    console.log(`     ${percent}%`);
+  };
+}
+
+// Seconds each clip gets: an even share of maxDurationSec, never more than a
+// clip is long, so a reel of one or two clips is shorter rather than padded
+function clipSlot(clipCount: number, maxDurationSec: number): number {
+  return Math.min(CLIP_SECONDS, Math.floor(maxDurationSec / Math.max(1, clipCount)));
+}
+
+/**
+ * Renders one format of the reel: intro card, the clips crossfading into
+ * each other, outro card. A clip that comes up a little short of its slot
+ * holds its last frame. Overlay text files are written to workDir.
+ */
+export async function compileReel(
+  clips: string[],
+  outputPath: string,
+  format: ReelFormat,
+  overlay: ReelOverlay,
+  workDir: string,
+  maxDurationSec = 60
+): Promise<boolean> {
+  if (clips.length === 0) return false;
+
+  const clipDuration = clipSlot(clips.length, maxDurationSec);
+  const size = `${format.width}x${format.height}`;
+  const text = textFilters(overlay, format, workDir);
+  const common = `fps=${FPS},format=yuv420p,setsar=1,settb=AVTB`;
+  const audio = "aformat=sample_rates=44100:channel_layouts=stereo";
+
+  // Segment 0 is the intro card, 1..n the clips, n+1 the outro card
+  const card = (label: number, drawtext: string) =>
+    `color=c=black:s=${size}:r=${FPS}:d=${CARD_SECONDS},${common}${drawtext ? `,${drawtext}` : ""}[v${label}];` +
+    `anullsrc=r=44100:cl=stereo,atrim=0:${CARD_SECONDS},${audio}[a${label}];`;
+
+  const segments = [
+    card(0, text.intro),
+    ...clips.map(
+      (_, i) =>
+        `[${i}:v]trim=0:${clipDuration},setpts=PTS-STARTPTS,` +
+        `scale=${format.width}:${format.height}:force_original_aspect_ratio=increase,crop=${format.width}:${format.height},` +
+        `tpad=stop_mode=clone:stop_duration=${clipDuration},trim=0:${clipDuration},${common},${text.lowerThird}[v${i + 1}];` +
+        `[${i}:a]atrim=0:${clipDuration},asetpts=PTS-STARTPTS,apad,atrim=0:${clipDuration},${audio}[a${i + 1}];`
+    ),
+    card(clips.length + 1, text.outro),
+  ];
+  const durations = [CARD_SECONDS, ...clips.map(() => clipDuration), CARD_SECONDS];
+
+  // Each crossfade starts FADE_SECONDS before the running total ends
+  let chain = "";
+  let elapsed = durations[0];
+  let video = "v0";
+  let sound = "a0";
+  for (let k = 1; k < durations.length; k++) {
+    const offset = elapsed - FADE_SECONDS;
+    chain +=
+      `[${video}][v${k}]xfade=transition=fade:duration=${FADE_SECONDS}:offset=${offset}[xv${k}];` +
+      `[${sound}][a${k}]acrossfade=d=${FADE_SECONDS}[xa${k}];`;
+    elapsed = offset + durations[k];
+    video = `xv${k}`;
+    sound = `xa${k}`;
+  }
+  chain +=
+    `[${video}]fade=t=out:st=${elapsed - 1}:d=1[outv];` +
+    `[${sound}]afade=t=out:st=${elapsed - 1}:d=1[outa]`;
+
+  try {
+    await runProcess(
+      "ffmpeg",
+      [
+        "-y",
+        ...clips.flatMap((c) => ["-i", c]),
+        "-filter_complex", segments.join("") + chain,
+        "-map", "[outv]", "-map", "[outa]",
+        "-c:v", "libx264", "-preset", "fast", "-crf", "23",
+        "-c:a", "aac", "-b:a", "128k",
+        "-movflags", "+faststart",
+        "-progress", "pipe:1", "-nostats",
+        outputPath,
+      ],
+      // drawtext finds its text files relative to workDir
+      { cwd: workDir, timeoutMs: 300_000, onLine: reportProgress(elapsed) }
+    );
+    return existsSync(outputPath);
+  } catch (err: any) {
+    console.error(`  Reel compilation failed (${format.aspect}): ${err.message}`);
+    return false;
+  }
+}
+
+/** Where the poster frame comes from: midway through the first clip, under its lower third. */
+export function posterTime(clipCount: number, maxDurationSec = 60): number {
+  return CARD_SECONDS - FADE_SECONDS + clipSlot(clipCount, maxDurationSec) / 2;
+}
+
+/** Grabs one frame of a rendered reel as a JPEG. */
+export async function extractPoster(
+  videoPath: string,
+  posterPath: string,
+  atSec: number
+): Promise<boolean> {
+  try {
+    await runProcess(
+      "ffmpeg",
+      ["-y", "-ss", String(atSec), "-i", videoPath, "-frames:v", "1", "-q:v", "2", posterPath],
+      { timeoutMs: 60_000 }
+    );
+    return existsSync(posterPath);
+  } catch (err: any) {
+    console.error(`  Poster extraction failed: ${err.message}`);
+    return false;
+  }
+}
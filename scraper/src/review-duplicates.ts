@@ -0,0 +1,80 @@
+/**
+ * Review queue for suspected duplicate events
+ *
+ *   festival-pulse duplicates              list pending pairs
+ *   festival-pulse duplicates merge <id>   fold the newer event into the older one
+ *   festival-pulse duplicates reject <id>  mark the pair as distinct events
+ */
+import { db } from "./db.js";
+import { CommandOptions, EXIT_OK, EXIT_USAGE } from "./options.js";
+import { mergeFestivals } from "./dedup.js";
+import { eq } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { duplicateCandidates, festivals } from "../../web/src/db/schema.js";
+
+const other = alias(festivals, "duplicate_of");
+
+async function listPending() {
+  const rows = await db
+    .select({
+      id: duplicateCandidates.id,
+      score: duplicateCandidates.score,
+      name: festivals.name,
+      startDate: festivals.startDate,
+      otherName: other.name,
+      otherStartDate: other.startDate,
+    })
+    .from(duplicateCandidates)
+    .innerJoin(festivals, eq(duplicateCandidates.festivalId, festivals.id))
+    .innerJoin(other, eq(duplicateCandidates.duplicateOfId, other.id))
+    .where(eq(duplicateCandidates.status, "pending"));
+
+  if (rows.length === 0) {
+    console.log("No pending duplicates 🎉");
+    return;
+  }
+
+  for (const row of rows) {
+    console.log(`\n${row.id}  (score ${row.score.toFixed(2)})`);
+    console.log(`  new:      ${row.name} (${row.startDate || "TBA"})`);
+    console.log(`  existing: ${row.otherName} (${row.otherStartDate || "TBA"})`);
+  }
+}
+
+async function resolve(id: string, action: "merge" | "reject") {
+  const [pair] = await db
+    .select()
+    .from(duplicateCandidates)
+    .where(eq(duplicateCandidates.id, id));
+
+  if (!pair || pair.status !== "pending" || !pair.festivalId || !pair.duplicateOfId) {
+    throw new Error(`No pending duplicate pair ${id}`);
+  }
+
+  if (action === "merge") {
+    await mergeFestivals(pair.duplicateOfId, pair.festivalId);
+    console.log(`✅ Merged`);
+  } else {
+    await db
+      .update(duplicateCandidates)
+      .set({ status: "rejected", reviewedAt: new Date() })
+      .where(eq(duplicateCandidates.id, id));
+    console.log(`✅ Marked as distinct events`);
+  }
+}
+
+export async function duplicatesCommand(options: CommandOptions): Promise<number> {
+  const [action, id] = options.args;
+
+  if (!action) {
+    await listPending();
+    return EXIT_OK;
+  }
+  if ((action === "merge" || action === "reject") && id) {
+    await resolve(id, action);
+    return EXIT_OK;
+  }
+
+  console.error("Usage: festival-pulse duplicates [merge|reject <id>]");
+  return EXIT_USAGE;
+}
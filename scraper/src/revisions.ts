@@ -0,0 +1,46 @@
+/**
+ * Spotlight revisions
+ * Generated articles don't go live on their own: each one is filed as a
+ * pending revision for an editor to approve, reject or edit at
+ * /admin/spotlights. A newer draft supersedes the pending one before it,
+ * and a draft identical to what's live, already pending or scheduled to
+ * replace the live article isn't filed.
+ */
+import { db } from "./db.js";
+import { and, eq, inArray } from "drizzle-orm";
+import { artistSpotlights, spotlightRevisions } from "../../web/src/db/schema.js";
+
+export interface ArticleDraft {
+  title: string;
+  content: string;
+  source: string; // "template" or the text provider's name
+}
+
+/** Files a draft for review; false when there was nothing new to file. */
+export async function proposeRevision(spotlightId: string, draft: ArticleDraft): Promise<boolean> {
+  const [spotlight] = await db
+    .select({ content: artistSpotlights.content, status: artistSpotlights.status })
+    .from(artistSpotlights)
+    .where(eq(artistSpotlights.id, spotlightId));
+  if (spotlight?.status === "published" && spotlight.content === draft.content) return false;
+
+  const queued = await db
+    .select({ status: spotlightRevisions.status, content: spotlightRevisions.content })
+    .from(spotlightRevisions)
+    .where(
+      and(
+        eq(spotlightRevisions.spotlightId, spotlightId),
+        inArray(spotlightRevisions.status, ["pending", "scheduled"])
+      )
+    );
+  if (queued.some((r) => r.content === draft.content)) return false;
+
+  if (queued.some((r) => r.status === "pending")) {
+    await db
+      .update(spotlightRevisions)
+      .set({ status: "superseded", reviewedAt: new Date() })
+      .where(and(eq(spotlightRevisions.spotlightId, spotlightId), eq(spotlightRevisions.status, "pending")));
+  }
+  await db.insert(spotlightRevisions).values({ spotlightId, ...draft });
+  return true;
+}
@@ -0,0 +1,305 @@
+/**
+ * Long-running scrape scheduler
+ * Runs every enabled scrape source on its own interval, plus the other
+ * pipeline jobs, each as a child process. A lease in job_locks keeps two
+ * schedulers from running the same job at once (manual CLI runs don't take
+ * it), failed runs are retried with backoff, and overdue jobs catch up once
+ * after downtime.
+ *
+ *   festival-pulse schedule
+ *
+ * env: SCHEDULER_CONCURRENCY (default 1), SCHEDULER_STATUS_PORT (optional)
+ */
+import { db } from "./db.js";
+import { acquireLock, LOCK_HOLDER, releaseLock, renewLock } from "./locks.js";
+import { CommandOptions, EXIT_OK } from "./options.js";
+import { ProcessError, runProcess } from "./process.js";
+import { createServer } from "http";
+import path from "path";
+import { and, desc, eq, gt } from "drizzle-orm";
+import { jobLocks, jobRuns, scrapeSources } from "../../web/src/db/schema.js";
+
+interface JobDefinition {
+  name: string;
+  label: string;
+  command: string[]; // festival-pulse command and flags
+  intervalMinutes: number;
+  sourceId?: string;
+}
+
+interface JobPlan {
+  dueAt: Date;
+  trigger: "schedule" | "retry" | "catch-up";
+  attempt: number;
+}
+
+const TICK_MS = 60_000;
+const LEASE_MS = 5 * 60_000;
+const JOB_TIMEOUT_MS = 60 * 60_000;
+const LOG_TAIL_CHARS = 4000;
+
+// Waits before retrying a failed run; after these it waits for its next interval
+const RETRY_DELAYS_MINUTES = [5, 15, 45];
+
+const STATIC_JOBS: JobDefinition[] = [
+  { name: "lifecycle", label: "Event lifecycle", command: ["lifecycle"], intervalMinutes: 60 },
+  { name: "scrape-extra", label: "Extra sources", command: ["scrape", "extra"], intervalMinutes: 24 * 60 },
+  { name: "enrich-artists", label: "Artist videos", command: ["enrich", "videos"], intervalMinutes: 24 * 60 },
+  { name: "articles", label: "Artist articles", command: ["articles", "generate"], intervalMinutes: 24 * 60 },
+];
+
+const concurrency = parseInt(process.env.SCHEDULER_CONCURRENCY || "1", 10);
+interface RunningJob {
+  abort: AbortController;
+  pid: number | null;
+  startedAt: Date;
+  runId: string | null;
+}
+
+const running = new Map<string, RunningJob>();
+let stopping = false;
+
+async function loadJobs(): Promise<JobDefinition[]> {
+  const sources = await db
+    .select()
+    .from(scrapeSources)
+    .where(eq(scrapeSources.enabled, true));
+
+  const sourceJobs = sources.map((source) => ({
+    name: `sync:${source.id}`,
+    label: `Sync ${source.name}`,
+    command: ["sync", "--source", source.id],
+    intervalMinutes: source.intervalMinutes ?? 720,
+    sourceId: source.id,
+  }));
+
+  return [...sourceJobs, ...STATIC_JOBS];
+}
+
+async function planJob(job: JobDefinition): Promise<JobPlan> {
+  const recent = await db
+    .select()
+    .from(jobRuns)
+    .where(eq(jobRuns.job, job.name))
+    .orderBy(desc(jobRuns.startedAt))
+    .limit(RETRY_DELAYS_MINUTES.length + 1);
+
+  const now = Date.now();
+  const intervalMs = job.intervalMinutes * 60_000;
+  const last = recent[0];
+
+  if (!last) return { dueAt: new Date(now), trigger: "schedule", attempt: 1 };
+
+  // Consecutive failures since the last success
+  let failures = 0;
+  for (const run of recent) {
+    if (run.status !== "error") break;
+    failures++;
+  }
+
+  if (failures > 0 && failures <= RETRY_DELAYS_MINUTES.length) {
+    const finishedAt = (last.finishedAt || last.startedAt).getTime();
+    return {
+      dueAt: new Date(finishedAt + RETRY_DELAYS_MINUTES[failures - 1] * 60_000),
+      trigger: "retry",
+      attempt: failures + 1,
+    };
+  }
+
+  const dueAt = last.startedAt.getTime() + intervalMs;
+  // A whole interval went by without a run: we were down, run once to catch up
+  return {
+    dueAt: new Date(dueAt),
+    trigger: now - dueAt > intervalMs ? "catch-up" : "schedule",
+    attempt: 1,
+  };
+}
+
+async function spawnJob(
+  job: JobDefinition,
+  state: RunningJob
+): Promise<{ exitCode: number | null; error: string | null; logTail: string }> {
+  let tail = "";
+  const onLine = (line: string) => {
+    console.log(`[${job.name}] ${line}`);
+    tail = (tail + line + "\n").slice(-LOG_TAIL_CHARS);
+  };
+
+  try {
+    const cli = path.join(__dirname, "cli.ts");
+    await runProcess(process.execPath, ["--import", "tsx", cli, ...job.command], {
+      cwd: path.join(__dirname, ".."),
+      timeoutMs: JOB_TIMEOUT_MS,
+      signal: state.abort.signal,
+      onLine,
+      onStart: (pid) => (state.pid = pid),
+    });
+    return { exitCode: 0, error: null, logTail: tail };
+  } catch (err: any) {
+    if (!(err instanceof ProcessError)) throw err;
+    const error =
+      err.reason === "timeout"
+        ? `Timed out after ${JOB_TIMEOUT_MS / 60_000} minutes`
+        : err.reason === "exit" && err.exitCode !== null
+          ? `Exited with code ${err.exitCode}`
+          : err.message;
+    return { exitCode: err.exitCode, error, logTail: tail };
+  }
+}
+
+async function runJob(job: JobDefinition, plan: JobPlan) {
+  // Claimed before the lock is taken, so the same tick can't start it twice
+  const state: RunningJob = { abort: new AbortController(), pid: null, startedAt: new Date(), runId: null };
+  running.set(job.name, state);
+  let locked = false;
+  let heartbeat: NodeJS.Timeout | undefined;
+
+  try {
+    locked = await acquireLock(job.name, LEASE_MS);
+    if (!locked) {
+      console.log(`⏭️  ${job.label}: locked by another process`);
+      return;
+    }
+
+    heartbeat = setInterval(() => {
+      renewLock(job.name, LEASE_MS).catch((err) =>
+        console.error(`  Lock renewal failed for ${job.name}: ${err.message}`)
+      );
+    }, LEASE_MS / 3);
+
+    const [run] = await db
+      .insert(jobRuns)
+      .values({
+        job: job.name,
+        sourceId: job.sourceId ?? null,
+        status: "running",
+        trigger: plan.trigger,
+        attempt: plan.attempt,
+      })
+      .returning({ id: jobRuns.id });
+    state.runId = run.id;
+    await renewLock(job.name, LEASE_MS, run.id);
+
+    console.log(`▶️  ${job.label} (${plan.trigger}, attempt ${plan.attempt})`);
+    const result = await spawnJob(job, state);
+
+    await db
+      .update(jobRuns)
+      .set({
+        status: result.error ? "error" : "success",
+        exitCode: result.exitCode,
+        error: result.error,
+        logTail: result.logTail,
+        finishedAt: new Date(),
+      })
+      .where(eq(jobRuns.id, run.id));
+
+    const seconds = Math.round((Date.now() - state.startedAt.getTime()) / 1000);
+    console.log(
+      result.error
+        ? `❌ ${job.label}: ${result.error} (${seconds}s)`
+        : `✅ ${job.label} (${seconds}s)`
+    );
+  } catch (err: any) {
+    console.error(`❌ ${job.label}: ${err.message}`);
+  } finally {
+    clearInterval(heartbeat);
+    running.delete(job.name);
+    if (locked) await releaseLock(job.name).catch(() => {});
+  }
+}
+
+/** Runs left "running" by a scheduler that died without releasing its lock. */
+async function markInterruptedRuns() {
+  const stale = await db.select().from(jobRuns).where(eq(jobRuns.status, "running"));
+
+  for (const run of stale) {
+    const [live] = await db
+      .select()
+      .from(jobLocks)
+      .where(and(eq(jobLocks.job, run.job), gt(jobLocks.lockedUntil, new Date())));
+    if (live) continue;
+
+    await db
+      .update(jobRuns)
+      .set({ status: "error", error: "Interrupted (scheduler stopped)", finishedAt: new Date() })
+      .where(eq(jobRuns.id, run.id));
+  }
+}
+
+async function tick() {
+  const jobs = await loadJobs();
+
+  for (const job of jobs) {
+    if (stopping || running.size >= concurrency) break;
+    if (running.has(job.name)) continue;
+
+    const plan = await planJob(job);
+    if (plan.dueAt.getTime() > Date.now()) continue;
+
+    // Fire and forget; the next tick sees it in `running`
+    runJob(job, plan).catch((err) => console.error(`❌ ${job.label}: ${err.message}`));
+  }
+}
+
+async function statusSnapshot() {
+  const jobs = await loadJobs();
+  return {
+    holder: LOCK_HOLDER,
+    running: [...running.entries()].map(([name, r]) => ({
+      job: name,
+      runId: r.runId,
+      startedAt: r.startedAt,
+      pid: r.pid,
+    })),
+    jobs: await Promise.all(
+      jobs.map(async (job) => {
+        const plan = await planJob(job);
+        return { job: job.name, label: job.label, intervalMinutes: job.intervalMinutes, ...plan };
+      })
+    ),
+  };
+}
+
+function serveStatus(port: number) {
+  createServer(async (req, res) => {
+    if (req.url !== "/status") {
+      res.writeHead(404).end();
+      return;
+    }
+    try {
+      const body = JSON.stringify(await statusSnapshot(), null, 2);
+      res.writeHead(200, { "Content-Type": "application/json" }).end(body);
+    } catch (err: any) {
+      res.writeHead(500).end(err.message);
+    }
+  }).listen(port, () => console.log(`📡 Status on http://localhost:${port}/status`));
+}
+
+async function shutdown() {
+  if (stopping) return;
+  stopping = true;
+  console.log("\n⏹️  Stopping scheduler...");
+
+  for (const { abort } of running.values()) abort.abort();
+  while (running.size > 0) await new Promise((r) => setTimeout(r, 500));
+  process.exit(0);
+}
+
+export async function scheduleCommand(_options: CommandOptions): Promise<number> {
+  console.log(`🎛️  Festival Pulse — Scheduler (${LOCK_HOLDER})`);
+
+  await markInterruptedRuns();
+
+  const port = process.env.SCHEDULER_STATUS_PORT;
+  if (port) serveStatus(parseInt(port, 10));
+
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+
+  while (!stopping) {
+    await tick().catch((err) => console.error(`Scheduler tick failed: ${err.message}`));
+    await new Promise((r) => setTimeout(r, TICK_MS));
+  }
+  return EXIT_OK;
+}
@@ -1,119 +1,18 @@
 /**
  * Extra scraper: Eventbrite, 3AM Techno, Songkick, RA re-scrape
  * Adds new events to the DB while avoiding duplicates
+ *
+ *   festival-pulse scrape extra [--from/--to] [--dry-run] [--json]
  */
 import { db } from "./db.js";
 import { fetchRAEvents } from "./ra-client.js";
-import { eq, ilike, sql } from "drizzle-orm";
-import {
-  venues,
-  artists,
-  festivals,
-  festivalLineups,
-  scrapeLogs,
-} from "../../web/src/db/schema.js";
-
-function slugify(text: string): string {
-  return text
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "-")
-    .replace(/^-|-$/g, "");
-}
-
-// Check if a similar event already exists (fuzzy name match)
-async function eventExists(name: string): Promise<boolean> {
-  const slug = slugify(name);
-  const existing = await db
-    .select({ id: festivals.id })
-    .from(festivals)
-    .where(eq(festivals.slug, slug))
-    .limit(1);
-  if (existing.length > 0) return true;
-
-  // Also check by ilike on name
-  const byName = await db
-    .select({ id: festivals.id })
-    .from(festivals)
-    .where(ilike(festivals.name, `%${name.substring(0, 20)}%`))
-    .limit(1);
-  return byName.length > 0;
-}
-
-async function upsertVenue(name: string, city: string, country = "Costa Rica") {
-  const existing = await db
-    .select()
-    .from(venues)
-    .where(eq(venues.name, name))
-    .limit(1);
-  if (existing.length > 0) return existing[0].id;
-
-  const [inserted] = await db
-    .insert(venues)
-    .values({ name, city, country })
-    .returning({ id: venues.id });
-  return inserted.id;
-}
-
-async function upsertArtist(name: string) {
-  const slug = slugify(name);
-  const existing = await db
-    .select()
-    .from(artists)
-    .where(eq(artists.slug, slug))
-    .limit(1);
-  if (existing.length > 0) return existing[0].id;
-
-  const [inserted] = await db
-    .insert(artists)
-    .values({ name, slug })
-    .returning({ id: artists.id });
-  return inserted.id;
-}
-
-async function insertEvent(data: {
-  name: string;
-  startDate: string;
-  endDate?: string;
-  venueId?: string | null;
-  websiteUrl?: string;
-  imageUrl?: string;
-  source: string;
-  artistNames?: string[];
-}) {
-  if (await eventExists(data.name)) {
-    console.log(`  ⏭️  Skip (duplicate): ${data.name}`);
-    return;
-  }
-
-  const slug = slugify(data.name) + "-2026";
-  const [inserted] = await db
-    .insert(festivals)
-    .values({
-      name: data.name,
-      slug,
-      startDate: data.startDate,
-      endDate: data.endDate || data.startDate,
-      venueId: data.venueId || null,
-      websiteUrl: data.websiteUrl || null,
-      imageUrl: data.imageUrl || null,
-      status: "upcoming",
-      metadata: { source: data.source },
-    })
-    .returning({ id: festivals.id });
-
-  console.log(`  ✅ Added: ${data.name} (${data.startDate})`);
-
-  // Link artists if any
-  if (data.artistNames) {
-    for (const artistName of data.artistNames) {
-      const artistId = await upsertArtist(artistName);
-      await db
-        .insert(festivalLineups)
-        .values({ festivalId: inserted.id, artistId, performanceDate: data.startDate })
-        .onConflictDoNothing();
-    }
-  }
-}
+import { normalizeRAListing } from "./sources/ra.js";
+import { describeChange, upsertEvent } from "./upsert.js";
+import { findDuplicate } from "./dedup.js";
+import { createDiff, emitDiff, recordChange, SyncDiff } from "./diff.js";
+import { CommandOptions, dateRange, EXIT_FAILED, EXIT_OK } from "./options.js";
+import { and, eq, sql } from "drizzle-orm";
+import { scrapeLogs, scrapeSources, ScrapeError } from "../../web/src/db/schema.js";
 
 // ─── Eventbrite ───
 async function scrapeEventbrite() {
@@ -132,7 +31,13 @@ async function scrape3AM() {
   // They also have a membership/residency at Û Kóko Club, but no specific dates listed.
   // Past events mentioned: Boris Brejcha, Fatboy Slim, Richie Hawtin
   
-  const exists = await eventExists("3AM Anniversary");
+  const exists = await findDuplicate({
+    title: "3AM Anniversary",
+    startDate: "2026-02-22",
+    endDate: null,
+    venueName: "Û Kóko Club",
+    artistNames: [],
+  });
   if (exists) {
     console.log("  ⏭️  3AM Anniversary already in DB");
   }
@@ -152,134 +57,104 @@ async function scrapeSongkick() {
 }
 
 // ─── RA Re-scrape ───
-async function rescrapeRA() {
-  console.log("\n🔊 RA Re-scrape (area 26 — Costa Rica)...");
-  const startTime = Date.now();
+const RA_AREA_ID = 26; // Costa Rica
 
-  const today = new Date();
-  const threeMonthsOut = new Date(today);
-  threeMonthsOut.setMonth(threeMonthsOut.getMonth() + 3);
+async function rescrapeRA(options: CommandOptions, diff: SyncDiff) {
+  console.log(`\n🔊 RA Re-scrape (area ${RA_AREA_ID} — Costa Rica)...`);
+  const startTime = Date.now();
 
-  const dateGte = today.toISOString().split("T")[0];
-  const dateLte = threeMonthsOut.toISOString().split("T")[0];
+  const { from: dateGte, to: dateLte } = dateRange(options, 90);
 
+  let seenEvents = 0;
   let newEvents = 0;
-  let newArtists = 0;
+  let updatedEvents = 0;
+  let artistSlots = 0;
+  let failed = false;
+  const errors: ScrapeError[] = [];
 
   try {
-    const listings = await fetchRAEvents(26, dateGte, dateLte);
-    console.log(`  Found ${listings.length} total RA events`);
-
-    for (const listing of listings) {
-      const event = listing.event;
-      const slug = slugify(event.title) + `-${event.id}`;
-
-      // Check if already exists
-      const existing = await db
-        .select({ id: festivals.id })
-        .from(festivals)
-        .where(eq(festivals.slug, slug))
-        .limit(1);
-
-      if (existing.length > 0) continue;
-
-      // New event — insert
-      const venueData = event.venue;
-      let venueId: string | null = null;
-      if (venueData?.name) {
-        venueId = await upsertVenue(
-          venueData.name,
-          venueData.area?.name || "",
-          venueData.area?.country?.name || "Costa Rica"
-        );
-      }
-
-      const imageUrl = event.images?.[0]?.filename
-        ? `https://ra.co/images/events/flyer/${event.images[0].filename}`
-        : null;
-
-      const [inserted] = await db
-        .insert(festivals)
-        .values({
-          name: event.title,
-          slug,
-          startDate: event.date?.split("T")[0] || null,
-          endDate: event.date?.split("T")[0] || null,
-          venueId,
-          websiteUrl: event.contentUrl ? `https://ra.co${event.contentUrl}` : null,
-          imageUrl,
-          status: "upcoming",
-          metadata: { raId: event.id, attending: event.attending },
-        })
-        .returning({ id: festivals.id });
-
-      newEvents++;
-      console.log(`  ✅ New: ${event.title}`);
-
-      // Artists
-      for (const artist of event.artists || []) {
-        const artistSlug = slugify(artist.name);
-        const existingArtist = await db
-          .select()
-          .from(artists)
-          .where(eq(artists.slug, artistSlug))
-          .limit(1);
+    const result = await fetchRAEvents(RA_AREA_ID, dateGte, dateLte);
+    console.log(`  Found ${result.listings.length} total RA events`);
+    if (result.partial) {
+      result.errors.forEach((e) => console.error(`  ⚠️  ${e}`));
+      errors.push(
+        ...result.errors.map((message) => ({
+          source: "ra",
+          stage: "fetch" as const,
+          entity: null,
+          message,
+        }))
+      );
+      // fetchRAEvents doesn't throw for a failed page; nothing read at all means RA is down
+      if (result.listings.length === 0) failed = true;
+    }
 
-        let artistId: string;
-        if (existingArtist.length > 0) {
-          artistId = existingArtist[0].id;
-        } else {
-          const [ins] = await db
-            .insert(artists)
-            .values({
-              name: artist.name,
-              slug: artistSlug,
-              raUrl: `https://ra.co/dj/${artistSlug}`,
-            })
-            .returning({ id: artists.id });
-          artistId = ins.id;
-          newArtists++;
+    for (const listing of result.listings) {
+      const event = normalizeRAListing(listing);
+      try {
+        const change = await upsertEvent(event, { dryRun: options.dryRun });
+        recordChange(diff, change);
+        seenEvents++;
+        artistSlots += event.artists.length;
+
+        if (change.action === "created") {
+          newEvents++;
+          console.log(`  ✅ New: ${describeChange(change)}`);
+        } else if (change.action === "updated") {
+          updatedEvents++;
+          console.log(`  ✏️  Updated: ${describeChange(change)}`);
         }
-
-        await db
-          .insert(festivalLineups)
-          .values({
-            festivalId: inserted.id,
-            artistId,
-            performanceDate: event.date?.split("T")[0] || null,
-          })
-          .onConflictDoNothing();
+      } catch (err: any) {
+        console.error(`  ❌ ${event.title}: ${err.message}`);
+        errors.push({ source: "ra", stage: "upsert", entity: event.title, message: err.message });
       }
     }
   } catch (err: any) {
     console.error(`  ❌ RA error: ${err.message}`);
+    errors.push({ source: "ra", stage: "fetch", entity: null, message: err.message });
+    failed = true;
   }
 
   const duration = Date.now() - startTime;
-  console.log(`  📊 ${newEvents} new events, ${newArtists} new artists (${duration}ms)`);
+  console.log(`  📊 ${newEvents} new events, ${updatedEvents} updated (${duration}ms)`);
+
+  if (options.dryRun) return { newEvents, failed };
+
+  // File the run under the RA source for the same area, if it's been seeded
+  const [source] = await db
+    .select({ id: scrapeSources.id })
+    .from(scrapeSources)
+    .where(and(eq(scrapeSources.type, "ra"), sql`${scrapeSources.config}->>'areaId' = ${String(RA_AREA_ID)}`))
+    .limit(1);
 
   await db.insert(scrapeLogs).values({
-    status: "success",
-    festivalsFound: newEvents,
-    artistsFound: newArtists,
-    errors: [],
+    sourceId: source?.id ?? null,
+    job: "rescrape-ra",
+    status: failed ? "error" : errors.length > 0 ? "partial" : "success",
+    festivalsFound: seenEvents,
+    eventsCreated: newEvents,
+    eventsUpdated: updatedEvents,
+    artistsFound: artistSlots,
+    errors: errors.slice(0, 200),
+    errorCount: errors.length,
     duration,
   });
 
-  return newEvents;
+  return { newEvents, failed };
 }
 
 // ─── Main ───
-async function main() {
-  console.log("🎛️  Festival Pulse — Extra Scraper");
+export async function scrapeExtraCommand(options: CommandOptions): Promise<number> {
+  const diff = createDiff(options.dryRun);
+  console.log(`🎛️  Festival Pulse — Extra Scraper${options.dryRun ? " (dry run)" : ""}`);
   console.log(`📅 ${new Date().toISOString()}\n`);
 
   const eb = await scrapeEventbrite();
   const am = await scrape3AM();
   const sk = await scrapeSongkick();
-  const ra = await rescrapeRA();
+  const ra = await rescrapeRA(options, diff);
 
-  console.log(`\n🏁 Done! ${eb + am + sk + ra} new events added total.`);
+  emitDiff(diff, options);
+  console.log(`\n🏁 Done! ${eb + am + sk + ra.newEvents} new events added total.`);
+  return ra.failed ? EXIT_FAILED : EXIT_OK;
 }
-
-main().catch(console.error);
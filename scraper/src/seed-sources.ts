@@ -0,0 +1,42 @@
+/**
+ * Seeds the scrape_sources table with our default sources.
+ * Safe to re-run: sources are matched by type + url.
+ *
+ *   festival-pulse sources seed [--dry-run]
+ */
+import { db } from "./db.js";
+import { CommandOptions, EXIT_OK } from "./options.js";
+import { and, eq } from "drizzle-orm";
+import { scrapeSources } from "../../web/src/db/schema.js";
+
+const DEFAULT_SOURCES = [
+  {
+    name: "RA — Costa Rica",
+    type: "ra",
+    url: "https://ra.co/events/cr/all",
+    config: { areaId: 26, daysAhead: 90 },
+  },
+];
+
+export async function seedSourcesCommand(options: CommandOptions): Promise<number> {
+  for (const source of DEFAULT_SOURCES) {
+    const existing = await db
+      .select({ id: scrapeSources.id })
+      .from(scrapeSources)
+      .where(and(eq(scrapeSources.type, source.type), eq(scrapeSources.url, source.url)))
+      .limit(1);
+
+    if (existing.length > 0) {
+      console.log(`⏭️  ${source.name} already exists`);
+      continue;
+    }
+
+    if (options.dryRun) {
+      console.log(`➕ Would add ${source.name}`);
+      continue;
+    }
+    await db.insert(scrapeSources).values(source);
+    console.log(`✅ Added ${source.name}`);
+  }
+  return EXIT_OK;
+}
@@ -0,0 +1,85 @@
+/**
+ * Date helpers shared by source adapters
+ */
+
+/** Whether an event starts within an optional from/to date range. */
+export function inDateRange(
+  event: { startDate: string | null },
+  range: { from?: string; to?: string }
+): boolean {
+  if (!event.startDate) return !range.from && !range.to;
+  if (range.from && event.startDate < range.from) return false;
+  if (range.to && event.startDate > range.to) return false;
+  return true;
+}
+
+/**
+ * Splits an ISO timestamp into a local date ("2026-02-15") and time ("23:00").
+ * Without a timeZone the wall-clock parts of the string are used as-is.
+ */
+export function toLocalDateTime(
+  iso: string | null | undefined,
+  timeZone?: string | null
+): { date: string | null; time: string | null } {
+  if (!iso) return { date: null, time: null };
+
+  if (!timeZone) {
+    return {
+      date: iso.split("T")[0] || null,
+      time: iso.split("T")[1]?.slice(0, 5) || null,
+    };
+  }
+
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return { date: null, time: null };
+
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(d)
+      .map((p) => [p.type, p.value])
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+  };
+}
+
+// Events that end before noon belong to the night before
+const OVERNIGHT_CUTOFF = "12:00";
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+/**
+ * Works out the calendar days an event covers from its start and end.
+ * A night that runs into the early morning stays a one-day event, while
+ * anything that carries on into a later day spans up to that day.
+ */
+export function eventSpan(
+  start: { date: string | null; time: string | null },
+  end: { date: string | null; time: string | null }
+): { startDate: string | null; endDate: string | null } {
+  if (!start.date) return { startDate: null, endDate: end.date };
+  if (!end.date || end.date <= start.date) {
+    return { startDate: start.date, endDate: start.date };
+  }
+
+  const endDate =
+    end.time && end.time < OVERNIGHT_CUTOFF ? addDays(end.date, -1) : end.date;
+  return {
+    startDate: start.date,
+    endDate: endDate < start.date ? start.date : endDate,
+  };
+}
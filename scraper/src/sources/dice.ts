@@ -0,0 +1,163 @@
+/**
+ * DICE source adapter
+ * Uses the DICE partners API (partners-endpoint.dice.fm)
+ *
+ * config: { venues?: string[], promoters?: string[], pageSize?: number }
+ * env:    DICE_API_KEY
+ */
+import { fetchWithRetry } from "../http.js";
+import { eventSpan, inDateRange, toLocalDateTime } from "./dates.js";
+import type {
+  FetchOptions,
+  NormalizedEvent,
+  ScrapeError,
+  ScrapeSource,
+  SourceAdapter,
+} from "./types.js";
+
+const DICE_API = "https://partners-endpoint.dice.fm/api/v2/events";
+
+interface DiceConfig {
+  venues?: string[];
+  promoters?: string[];
+  pageSize?: number;
+}
+
+export interface DiceEvent {
+  id: string;
+  name: string;
+  date: string;
+  date_end: string | null;
+  timezone: string | null;
+  url: string;
+  status?: string | null;
+  event_images?: {
+    landscape?: string | null;
+    square?: string | null;
+    portrait?: string | null;
+  } | null;
+  venue: string | null;
+  location: {
+    street?: string | null;
+    city?: string | null;
+    country?: string | null;
+    lat?: number | null;
+    lng?: number | null;
+  } | null;
+  artists?: string[];
+  detailed_artists?: { id: number | string; name: string }[];
+  genre_tags?: string[];
+}
+
+export interface DiceResponse {
+  data: DiceEvent[];
+  links?: { next?: string | null };
+}
+
+function lineupOf(event: DiceEvent): NormalizedEvent["artists"] {
+  if (event.detailed_artists?.length) {
+    return event.detailed_artists.map((a) => ({
+      externalId: String(a.id),
+      name: a.name,
+      url: null,
+    }));
+  }
+  return (event.artists || []).map((name) => ({ externalId: null, name, url: null }));
+}
+
+export function normalizeDiceEvent(event: DiceEvent): NormalizedEvent {
+  const start = toLocalDateTime(event.date, event.timezone);
+  const end = toLocalDateTime(event.date_end, event.timezone);
+  const images = event.event_images;
+
+  return {
+    source: "dice",
+    externalId: event.id,
+    title: event.name,
+    ...eventSpan(start, end),
+    startTime: start.time,
+    endTime: end.time,
+    websiteUrl: null,
+    ticketUrl: event.url || null,
+    imageUrl: images?.landscape || images?.square || images?.portrait || null,
+    venue: event.venue
+      ? {
+          externalId: null,
+          name: event.venue,
+          city: event.location?.city || null,
+          country: event.location?.country || null,
+          address: event.location?.street || null,
+          latitude: event.location?.lat ?? null,
+          longitude: event.location?.lng ?? null,
+        }
+      : null,
+    artists: lineupOf(event),
+    cancelled: event.status === "cancelled",
+    metadata: {
+      diceId: event.id,
+      genres: event.genre_tags || [],
+    },
+  };
+}
+
+/**
+ * Parses a raw events response. Kept free of I/O so it can be exercised
+ * against saved responses.
+ */
+export function parseDiceResponse(json: DiceResponse): NormalizedEvent[] {
+  return (json.data || [])
+    .filter((e) => e.name && e.date)
+    .map(normalizeDiceEvent);
+}
+
+export const diceAdapter: SourceAdapter = {
+  type: "dice",
+
+  async fetchEvents(source: ScrapeSource, options: FetchOptions = {}) {
+    const config = (source.config || {}) as DiceConfig;
+
+    const apiKey = process.env.DICE_API_KEY;
+    if (!apiKey) throw new Error("DICE_API_KEY is not set");
+
+    const params = new URLSearchParams({
+      "page[size]": String(config.pageSize ?? 50),
+      "filter[date_from]": new Date().toISOString(),
+    });
+    for (const venue of config.venues || []) params.append("filter[venues][]", venue);
+    for (const promoter of config.promoters || []) {
+      params.append("filter[promoters][]", promoter);
+    }
+
+    const events: NormalizedEvent[] = [];
+    const errors: ScrapeError[] = [];
+    let url: string | null | undefined = `${DICE_API}?${params}`;
+
+    while (url) {
+      let json: DiceResponse;
+      try {
+        const res = await fetchWithRetry(url, { headers: { "x-api-key": apiKey } });
+        json = (await res.json()) as DiceResponse;
+      } catch (err: any) {
+        // Nothing fetched yet is a failed run; later pages leave it partial
+        if (events.length === 0) throw new Error(`DICE API error: ${err.message}`);
+        errors.push({
+          source: "dice",
+          stage: "fetch",
+          entity: `page after ${events.length} events`,
+          message: err.message,
+        });
+        break;
+      }
+
+      const page = parseDiceResponse(json);
+      events.push(...page);
+      console.log(`  Page: ${page.length} events (total: ${events.length})`);
+
+      url = json.links?.next;
+      if (url) await new Promise((r) => setTimeout(r, 1000));
+    }
+
+    // date_from only leaves out past events; --from/--to are applied here
+    return { events: events.filter((e) => inDateRange(e, options)), errors };
+  },
+};
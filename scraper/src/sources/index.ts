@@ -0,0 +1,23 @@
+/**
+ * Source adapter registry — maps scrape_sources.type to an adapter
+ */
+import { diceAdapter } from "./dice.js";
+import { raAdapter } from "./ra.js";
+import { shotgunAdapter } from "./shotgun.js";
+import type { SourceAdapter } from "./types.js";
+
+export * from "./types.js";
+
+const ADAPTERS: Record<string, SourceAdapter> = {
+  [raAdapter.type]: raAdapter,
+  [shotgunAdapter.type]: shotgunAdapter,
+  [diceAdapter.type]: diceAdapter,
+};
+
+export function getAdapter(type: string): SourceAdapter | null {
+  return ADAPTERS[type] || null;
+}
+
+export function supportedSourceTypes(): string[] {
+  return Object.keys(ADAPTERS);
+}
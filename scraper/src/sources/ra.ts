@@ -0,0 +1,92 @@
+/**
+ * Resident Advisor source adapter
+ *
+ * config: { areaId: number, daysAhead?: number }
+ */
+import { fetchRAEvents, RAEventListing } from "../ra-client.js";
+import { lookupPlace } from "../geo/index.js";
+import { eventSpan, toLocalDateTime } from "./dates.js";
+import type { FetchOptions, NormalizedEvent, ScrapeSource, SourceAdapter } from "./types.js";
+
+interface RAConfig {
+  areaId: number;
+  daysAhead?: number;
+}
+
+type RAVenue = NonNullable<RAEventListing["event"]["venue"]>;
+
+// RA areas can be a whole country (area 26 is "Costa Rica"); then the town has to come from the address
+function venueCity(v: RAVenue): string | null {
+  const area = v.area?.name || null;
+  const country = v.area?.country?.name || null;
+  if (area && area !== country) return area;
+  return (v.address && lookupPlace(v.address, country)?.name) || null;
+}
+
+export function normalizeRAListing(listing: RAEventListing): NormalizedEvent {
+  const event = listing.event;
+  const v = event.venue;
+  const start = toLocalDateTime(event.startTime || event.date);
+  const end = toLocalDateTime(event.endTime);
+  const span = eventSpan(start, end);
+
+  return {
+    source: "ra",
+    externalId: event.id,
+    title: event.title,
+    startDate: span.startDate,
+    endDate: span.endDate,
+    startTime: start.time,
+    endTime: end.time,
+    websiteUrl: event.contentUrl ? `https://ra.co${event.contentUrl}` : null,
+    ticketUrl: null,
+    imageUrl: event.images?.[0]?.filename
+      ? `https://ra.co/images/events/flyer/${event.images[0].filename}`
+      : null,
+    venue: v?.name
+      ? {
+          externalId: v.id,
+          name: v.name,
+          city: venueCity(v),
+          country: v.area?.country?.name || null,
+          address: v.address || null,
+        }
+      : null,
+    artists: (event.artists || []).map((a) => ({
+      externalId: a.id,
+      name: a.name,
+      url: a.contentUrl ? `https://ra.co${a.contentUrl}` : null,
+    })),
+    metadata: { raId: event.id, attending: event.attending },
+  };
+}
+
+export const raAdapter: SourceAdapter = {
+  type: "ra",
+
+  async fetchEvents(source: ScrapeSource, options: FetchOptions = {}) {
+    const config = (source.config || {}) as Partial<RAConfig>;
+    if (!config.areaId) {
+      throw new Error(`Source "${source.name}" is missing config.areaId`);
+    }
+
+    const today = new Date();
+    const until = new Date(today);
+    until.setDate(until.getDate() + (config.daysAhead ?? 90));
+
+    const dateGte = options.from || today.toISOString().split("T")[0];
+    const dateLte = options.to || until.toISOString().split("T")[0];
+
+    console.log(`  RA area ${config.areaId}: ${dateGte} → ${dateLte}`);
+    const result = await fetchRAEvents(config.areaId, dateGte, dateLte);
+    return {
+      events: result.listings.map(normalizeRAListing),
+      errors: result.errors.map((message) => ({
+        source: "ra",
+        stage: "fetch" as const,
+        entity: null,
+        message,
+      })),
+    };
+  },
+};
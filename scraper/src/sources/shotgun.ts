@@ -0,0 +1,150 @@
+/**
+ * Shotgun source adapter
+ * Uses the Shotgun organizer API (smartboard-api.shotgun.live)
+ *
+ * config: { organizerId: number, includePast?: boolean }
+ * env:    SHOTGUN_API_TOKEN
+ */
+import { fetchWithRetry } from "../http.js";
+import { eventSpan, inDateRange, toLocalDateTime } from "./dates.js";
+import type {
+  FetchOptions,
+  NormalizedEvent,
+  ScrapeError,
+  ScrapeSource,
+  SourceAdapter,
+} from "./types.js";
+
+const SHOTGUN_API = "https://smartboard-api.shotgun.live/api/shotgun";
+
+interface ShotgunConfig {
+  organizerId: number;
+  includePast?: boolean;
+}
+
+export interface ShotgunEvent {
+  id: number;
+  name: string;
+  url: string;
+  startTime: string;
+  endTime: string | null;
+  timezone: string | null;
+  coverUrl: string | null;
+  cancelledAt?: string | null;
+  geolocation: {
+    venue: string | null;
+    street: string | null;
+    city: string | null;
+    country: string | null;
+    lat?: number | null;
+    lng?: number | null;
+  } | null;
+  artists: { id: number; name: string }[];
+  genres?: { name: string }[];
+}
+
+export interface ShotgunResponse {
+  data: ShotgunEvent[];
+  pagination?: { after?: string | null };
+}
+
+export function normalizeShotgunEvent(event: ShotgunEvent): NormalizedEvent {
+  const start = toLocalDateTime(event.startTime, event.timezone);
+  const end = toLocalDateTime(event.endTime, event.timezone);
+  const geo = event.geolocation;
+
+  return {
+    source: "shotgun",
+    externalId: String(event.id),
+    title: event.name,
+    ...eventSpan(start, end),
+    startTime: start.time,
+    endTime: end.time,
+    websiteUrl: event.url || null,
+    ticketUrl: event.url || null,
+    imageUrl: event.coverUrl || null,
+    venue: geo?.venue
+      ? {
+          externalId: null,
+          name: geo.venue,
+          city: geo.city || null,
+          country: geo.country || null,
+          address: geo.street || null,
+          latitude: geo.lat ?? null,
+          longitude: geo.lng ?? null,
+        }
+      : null,
+    artists: (event.artists || []).map((a) => ({
+      externalId: String(a.id),
+      name: a.name,
+      url: null,
+    })),
+    cancelled: Boolean(event.cancelledAt),
+    metadata: {
+      shotgunId: String(event.id),
+      genres: (event.genres || []).map((g) => g.name),
+    },
+  };
+}
+
+/**
+ * Parses a raw organizer events response. Kept free of I/O so it can be
+ * exercised against saved responses.
+ */
+export function parseShotgunResponse(json: ShotgunResponse): NormalizedEvent[] {
+  return (json.data || [])
+    .filter((e) => e.name && e.startTime)
+    .map(normalizeShotgunEvent);
+}
+
+export const shotgunAdapter: SourceAdapter = {
+  type: "shotgun",
+
+  async fetchEvents(source: ScrapeSource, options: FetchOptions = {}) {
+    const config = (source.config || {}) as Partial<ShotgunConfig>;
+    if (!config.organizerId) {
+      throw new Error(`Source "${source.name}" is missing config.organizerId`);
+    }
+
+    const token = process.env.SHOTGUN_API_TOKEN;
+    if (!token) throw new Error("SHOTGUN_API_TOKEN is not set");
+
+    const events: NormalizedEvent[] = [];
+    const errors: ScrapeError[] = [];
+    let after: string | null | undefined;
+
+    do {
+      const params = new URLSearchParams({ key: token });
+      if (config.includePast) params.set("past_events", "true");
+      if (after) params.set("after", after);
+
+      let json: ShotgunResponse;
+      try {
+        const res = await fetchWithRetry(
+          `${SHOTGUN_API}/organizers/${config.organizerId}/events?${params}`
+        );
+        json = (await res.json()) as ShotgunResponse;
+      } catch (err: any) {
+        // Nothing fetched yet is a failed run; later pages leave it partial
+        if (events.length === 0) throw new Error(`Shotgun API error: ${err.message}`);
+        errors.push({
+          source: "shotgun",
+          stage: "fetch",
+          entity: `page after ${events.length} events`,
+          message: err.message,
+        });
+        break;
+      }
+
+      const page = parseShotgunResponse(json);
+      events.push(...page);
+      console.log(`  Page: ${page.length} events (total: ${events.length})`);
+
+      after = json.pagination?.after;
+      if (after) await new Promise((r) => setTimeout(r, 1000));
+    } while (after);
+
+    // The API has no date filter, so a range is applied here
+    return { events: events.filter((e) => inDateRange(e, options)), errors };
+  },
+};
@@ -0,0 +1,60 @@
+/**
+ * Source adapter contract
+ * Every scrape_sources row is dispatched to an adapter by its `type`.
+ * Adapters turn whatever the source returns into NormalizedEvents,
+ * which the sync pipeline upserts into festivals/venues/artists.
+ */
+import { scrapeSources, ScrapeError } from "../../../web/src/db/schema.js";
+
+export type ScrapeSource = typeof scrapeSources.$inferSelect;
+export type { ScrapeError };
+
+export interface NormalizedVenue {
+  externalId: string | null;
+  name: string;
+  city: string | null;
+  country: string | null;
+  address: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export interface NormalizedArtist {
+  externalId: string | null;
+  name: string;
+  url: string | null; // profile page on the source, when it gives us one
+}
+
+export interface NormalizedEvent {
+  source: string; // "ra", "shotgun", "dice"...
+  externalId: string;
+  title: string;
+  startDate: string | null; // "2026-02-15"
+  endDate: string | null;
+  startTime: string | null; // "23:00"
+  endTime: string | null;
+  websiteUrl: string | null;
+  ticketUrl: string | null;
+  imageUrl: string | null;
+  venue: NormalizedVenue | null;
+  artists: NormalizedArtist[];
+  cancelled?: boolean; // the source itself says it's off
+  metadata: Record<string, unknown>;
+}
+
+export interface SourceFetchResult {
+  events: NormalizedEvent[];
+  // Problems that didn't stop the fetch; any here means the result is partial
+  errors: ScrapeError[];
+}
+
+// Narrows a fetch to events starting within these dates (YYYY-MM-DD)
+export interface FetchOptions {
+  from?: string;
+  to?: string;
+}
+
+export interface SourceAdapter {
+  type: string;
+  fetchEvents(source: ScrapeSource, options?: FetchOptions): Promise<SourceFetchResult>;
+}
@@ -0,0 +1,126 @@
+/**
+ * Event status lifecycle
+ * upcoming → ongoing → past, by the venue's local clock, plus
+ * cancellation for events that keep disappearing from their source.
+ */
+import { db } from "./db.js";
+import { timezoneFor } from "./geo/index.js";
+import { toLocalDateTime } from "./sources/dates.js";
+import { and, eq, gte, inArray } from "drizzle-orm";
+import { festivals, venues } from "../../web/src/db/schema.js";
+
+// One miss can be a flaky listing; this many in a row means it's gone
+export const CANCEL_AFTER_MISSES = 3;
+
+// Overnight events are still on until this hour the morning after their last day
+const OVERNIGHT_CUTOFF = "12:00";
+
+type EventStatus = "upcoming" | "ongoing" | "past";
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+export function statusAt(
+  event: { startDate: string | null; endDate: string | null },
+  local: { date: string; time: string }
+): EventStatus | null {
+  if (!event.startDate) return null;
+  const endDate = event.endDate || event.startDate;
+
+  if (local.date < event.startDate) return "upcoming";
+  if (local.date <= endDate) return "ongoing";
+  if (local.date === addDays(endDate, 1) && local.time < OVERNIGHT_CUTOFF) {
+    return "ongoing";
+  }
+  return "past";
+}
+
+function localNow(country: string | null) {
+  const { date, time } = toLocalDateTime(new Date().toISOString(), timezoneFor(country));
+  return { date: date!, time: time! };
+}
+
+/**
+ * Moves every live event to the status its dates say it should have.
+ * Cancelled events are left alone.
+ */
+export async function updateEventStatuses() {
+  const rows = await db
+    .select({
+      id: festivals.id,
+      name: festivals.name,
+      status: festivals.status,
+      startDate: festivals.startDate,
+      endDate: festivals.endDate,
+      country: venues.country,
+    })
+    .from(festivals)
+    .leftJoin(venues, eq(festivals.venueId, venues.id))
+    .where(inArray(festivals.status, ["upcoming", "ongoing"]));
+
+  const moved: { name: string; from: string | null; to: EventStatus }[] = [];
+  for (const row of rows) {
+    const next = statusAt(row, localNow(row.country));
+    if (!next || next === row.status) continue;
+
+    await db
+      .update(festivals)
+      .set({ status: next, updatedAt: new Date() })
+      .where(eq(festivals.id, row.id));
+    moved.push({ name: row.name, from: row.status, to: next });
+  }
+
+  return moved;
+}
+
+/**
+ * Called after a complete sync of a source: upcoming events it synced
+ * before but didn't return this time get a miss, and enough misses in a
+ * row cancel them. Events it did return had their misses reset on upsert.
+ * A dry run reports what would be flagged without writing.
+ */
+export async function markMissingEvents(
+  sourceId: string,
+  seenFestivalIds: Set<string>,
+  options: { dryRun?: boolean } = {}
+) {
+  const rows = await db
+    .select({
+      id: festivals.id,
+      name: festivals.name,
+      missedSyncs: festivals.missedSyncs,
+    })
+    .from(festivals)
+    .where(
+      and(
+        eq(festivals.sourceId, sourceId),
+        eq(festivals.status, "upcoming"),
+        gte(festivals.startDate, localNow(null).date)
+      )
+    );
+
+  const flagged: string[] = [];
+  const cancelled: string[] = [];
+
+  for (const row of rows) {
+    if (seenFestivalIds.has(row.id)) continue;
+
+    const missedSyncs = (row.missedSyncs || 0) + 1;
+    const cancel = missedSyncs >= CANCEL_AFTER_MISSES;
+    (cancel ? cancelled : flagged).push(row.name);
+    if (options.dryRun) continue;
+
+    await db
+      .update(festivals)
+      .set({
+        missedSyncs,
+        ...(cancel ? { status: "cancelled", updatedAt: new Date() } : {}),
+      })
+      .where(eq(festivals.id, row.id));
+  }
+
+  return { flagged, cancelled };
+}
@@ -0,0 +1,34 @@
+/**
+ * Storage backends for reels and posters
+ *
+ *   STORAGE_DRIVER   local (default) or s3 — see local.ts and s3.ts
+ */
+import { localStorage } from "./local.js";
+import { s3Storage } from "./s3.js";
+import type { StorageBackend } from "./types.js";
+
+export * from "./types.js";
+
+const BACKENDS: Record<string, StorageBackend> = {
+  [localStorage.name]: localStorage,
+  [s3Storage.name]: s3Storage,
+};
+
+export function getStorage(): StorageBackend {
+  const name = process.env.STORAGE_DRIVER || "local";
+  const backend = BACKENDS[name];
+  if (!backend) throw new Error(`Unknown storage driver "${name}"`);
+  return backend;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".mp4": "video/mp4",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+};
+
+export function contentTypeFor(file: string): string {
+  const ext = file.slice(file.lastIndexOf(".")).toLowerCase();
+  return CONTENT_TYPES[ext] || "application/octet-stream";
+}
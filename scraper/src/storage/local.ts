@@ -0,0 +1,25 @@
+/**
+ * Local filesystem storage
+ * Copies files into a directory the site serves as static files —
+ * by default web/public/media, which Next serves at /media.
+ *
+ *   STORAGE_DIR          where files go (default ../web/public/media)
+ *   STORAGE_PUBLIC_URL   URL prefix for them (default /media)
+ */
+import { copyFileSync, mkdirSync } from "fs";
+import path from "path";
+import type { StorageBackend } from "./types.js";
+
+export const localStorage: StorageBackend = {
+  name: "local",
+
+  async put(localPath, key) {
+    const root = path.resolve(process.env.STORAGE_DIR || "../web/public/media");
+    const target = path.join(root, key);
+    mkdirSync(path.dirname(target), { recursive: true });
+    copyFileSync(localPath, target);
+
+    const base = (process.env.STORAGE_PUBLIC_URL || "/media").replace(/\/+$/, "");
+    return { key, url: `${base}/${key}` };
+  },
+};
@@ -0,0 +1,99 @@
+/**
+ * S3-compatible storage (AWS S3, Cloudflare R2, MinIO...)
+ * Uploads with a single signed PUT (AWS Signature V4), so there's no SDK
+ * to install. With S3_ENDPOINT set, requests are path-style
+ * (<endpoint>/<bucket>/<key>), which is what MinIO expects.
+ *
+ *   S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY   required
+ *   S3_REGION       default us-east-1
+ *   S3_ENDPOINT     e.g. http://localhost:9000 for MinIO
+ *   S3_PUBLIC_URL   URL prefix objects are served from
+ *                   (default the bucket's own URL)
+ */
+import { createHash, createHmac } from "crypto";
+import { readFileSync } from "fs";
+import { HttpError } from "../http.js";
+import type { StorageBackend } from "./types.js";
+
+function sha256(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+// Each path segment encoded, slashes kept
+function encodeKey(key: string): string {
+  return key.split("/").map(encodeURIComponent).join("/");
+}
+
+function config() {
+  const bucket = process.env.S3_BUCKET;
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error("S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set");
+  }
+  const region = process.env.S3_REGION || "us-east-1";
+  const endpoint = process.env.S3_ENDPOINT?.replace(/\/+$/, "");
+  const bucketUrl = endpoint
+    ? `${endpoint}/${bucket}`
+    : `https://${bucket}.s3.${region}.amazonaws.com`;
+  return { bucket, accessKeyId, secretAccessKey, region, bucketUrl };
+}
+
+export const s3Storage: StorageBackend = {
+  name: "s3",
+
+  async put(localPath, key, contentType) {
+    const { accessKeyId, secretAccessKey, region, bucketUrl } = config();
+    const body = readFileSync(localPath);
+    const url = new URL(`${bucketUrl}/${encodeKey(key)}`);
+
+    const amzDate = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+    const day = amzDate.slice(0, 8);
+    const scope = `${day}/${region}/s3/aws4_request`;
+    const payloadHash = sha256(body);
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    const signedHeaders = Object.keys(headers).join(";");
+    const canonicalRequest = [
+      "PUT",
+      url.pathname,
+      "",
+      ...Object.entries(headers).map(([name, value]) => `${name}:${value}`),
+      "",
+      signedHeaders,
+      payloadHash,
+    ].join("\n");
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n");
+
+    const signingKey = ["s3", "aws4_request"].reduce(
+      (k, part) => hmac(k, part),
+      hmac(hmac(`AWS4${secretAccessKey}`, day), region)
+    );
+    const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+    const res = await fetch(url, {
+      method: "PUT",
+      headers: {
+        "x-amz-content-sha256": payloadHash,
+        "x-amz-date": amzDate,
+        "content-type": contentType,
+        authorization:
+          `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, ` +
+          `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body,
+    });
+    if (!res.ok) throw new HttpError(res.status, res.statusText, url.toString());
+
+    const base = (process.env.S3_PUBLIC_URL || bucketUrl).replace(/\/+$/, "");
+    return { key, url: `${base}/${encodeKey(key)}` };
+  },
+};
@@ -0,0 +1,17 @@
+/**
+ * Storage contract
+ * Where finished reels and posters go so the site can serve them. The
+ * pipeline only ever asks for a file to be put under a key and gets back
+ * the URL to store; whether that's a folder Next serves or a bucket is
+ * the backend's business.
+ */
+
+export interface StoredObject {
+  key: string; // "reels/bob-moses/reel-vertical.mp4"
+  url: string; // what goes in the database
+}
+
+export interface StorageBackend {
+  name: string;
+  put(localPath: string, key: string, contentType: string): Promise<StoredObject>;
+}
@@ -1,205 +1,161 @@
 /**
- * Syncs RA events into our database
+ * Syncs events from every enabled scrape source into our database
+ *
+ *   festival-pulse sync [--source <id>] [--from/--to] [--dry-run] [--json]
+ *
+ * --source syncs one source; --dry-run writes nothing and prints what
+ * would change; --json emits that diff as JSON.
  */
 import { db } from "./db.js";
-import { fetchRAEvents, RAEventListing, RA_AREAS } from "./ra-client.js";
+import { getAdapter, ScrapeError, ScrapeSource } from "./sources/index.js";
+import { describeChange, EventChange, upsertEvent } from "./upsert.js";
+import { markMissingEvents } from "./status.js";
+import { createDiff, emitDiff, recordChange, recordMissing, SyncDiff } from "./diff.js";
+import { CommandOptions, EXIT_FAILED, EXIT_OK } from "./options.js";
 import { eq } from "drizzle-orm";
-import {
-  venues,
-  artists,
-  festivals,
-  festivalLineups,
-  scrapeSources,
-  scrapeLogs,
-} from "../../web/src/db/schema.js";
-
-function slugify(text: string): string {
-  return text
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "-")
-    .replace(/^-|-$/g, "");
-}
-
-async function upsertVenue(event: RAEventListing["event"]) {
-  const v = event.venue;
-  if (!v?.name) return null;
+import { scrapeSources, scrapeLogs } from "../../web/src/db/schema.js";
 
-  const slug = `ra-venue-${v.id}`;
-  const existing = await db
-    .select()
-    .from(venues)
-    .where(eq(venues.name, v.name))
-    .limit(1);
-
-  if (existing.length > 0) return existing[0].id;
-
-  const [inserted] = await db
-    .insert(venues)
-    .values({
-      name: v.name,
-      city: v.area?.name || null,
-      country: v.area?.country?.name || null,
-      address: v.address || null,
-    })
-    .returning({ id: venues.id });
-
-  return inserted.id;
-}
+// A broken source can fail every event; keep the log row a sane size
+const MAX_LOGGED_ERRORS = 200;
 
-async function upsertArtist(artist: { id: string; name: string }) {
-  const slug = slugify(artist.name);
-  const existing = await db
-    .select()
-    .from(artists)
-    .where(eq(artists.slug, slug))
-    .limit(1);
-
-  if (existing.length > 0) return existing[0].id;
-
-  const [inserted] = await db
-    .insert(artists)
-    .values({
-      name: artist.name,
-      slug,
-      raUrl: `https://ra.co/dj/${slug}`,
-    })
-    .returning({ id: artists.id });
-
-  return inserted.id;
-}
-
-async function upsertFestival(
-  event: RAEventListing["event"],
-  venueId: string | null
-) {
-  const slug = slugify(event.title) + `-${event.id}`;
-  const existing = await db
-    .select()
-    .from(festivals)
-    .where(eq(festivals.slug, slug))
-    .limit(1);
-
-  if (existing.length > 0) return existing[0].id;
-
-  const imageUrl = event.images?.[0]?.filename
-    ? `https://ra.co/images/events/flyer/${event.images[0].filename}`
-    : null;
-
-  const [inserted] = await db
-    .insert(festivals)
-    .values({
-      name: event.title,
-      slug,
-      startDate: event.date?.split("T")[0] || null,
-      endDate: event.date?.split("T")[0] || null,
-      venueId: venueId,
-      websiteUrl: event.contentUrl
-        ? `https://ra.co${event.contentUrl}`
-        : null,
-      imageUrl,
-      status: "upcoming",
-      metadata: { raId: event.id, attending: event.attending },
-    })
-    .returning({ id: festivals.id });
-
-  return inserted.id;
-}
-
-async function syncArea(areaName: string, areaId: number, dateGte: string, dateLte: string) {
-  console.log(`\n🔍 Scraping ${areaName} (area ${areaId}) from ${dateGte} to ${dateLte}...`);
+async function syncSource(source: ScrapeSource, options: CommandOptions, diff: SyncDiff) {
+  console.log(`\n🔍 Scraping ${source.name} (${source.type})...`);
   const startTime = Date.now();
 
   let festivalsFound = 0;
   let artistsFound = 0;
-  const errors: string[] = [];
-
-  try {
-    const listings = await fetchRAEvents(areaId, dateGte, dateLte);
-    console.log(`  Found ${listings.length} events`);
-
-    for (const listing of listings) {
-      try {
-        const event = listing.event;
-
-        // Upsert venue
-        const venueId = await upsertVenue(event);
-
-        // Upsert festival/event
-        const festivalId = await upsertFestival(event, venueId);
-        festivalsFound++;
-
-        // Upsert artists & lineups
-        for (const artist of event.artists || []) {
-          try {
-            const artistId = await upsertArtist(artist);
-            artistsFound++;
-
-            // Link artist to festival
-            await db
-              .insert(festivalLineups)
-              .values({
-                festivalId,
-                artistId,
-                performanceDate: event.date?.split("T")[0] || null,
-                startTime: event.startTime?.split("T")[1]?.slice(0, 5) || null,
-                endTime: event.endTime?.split("T")[1]?.slice(0, 5) || null,
-              })
-              .onConflictDoNothing();
-          } catch (err: any) {
-            errors.push(`Artist ${artist.name}: ${err.message}`);
+  const changes: EventChange[] = [];
+  const errors: ScrapeError[] = [];
+
+  const adapter = getAdapter(source.type);
+
+  if (!adapter) {
+    errors.push({
+      source: source.type,
+      stage: "config",
+      entity: null,
+      message: `No adapter for type "${source.type}"`,
+    });
+  } else {
+    try {
+      const { events, errors: fetchErrors } = await adapter.fetchEvents(source, {
+        from: options.from,
+        to: options.to,
+      });
+      console.log(`  Found ${events.length} events`);
+      errors.push(...fetchErrors);
+
+      for (const event of events) {
+        try {
+          const change = await upsertEvent(event, {
+            sourceId: source.id,
+            dryRun: options.dryRun,
+          });
+          changes.push(change);
+          recordChange(diff, change);
+          festivalsFound++;
+          artistsFound += event.artists.length;
+
+          if (change.action !== "unchanged") {
+            const icon = change.action === "created" ? "✨" : "✏️ ";
+            console.log(`  ${icon} ${describeChange(change)}`);
           }
+        } catch (err: any) {
+          errors.push({
+            source: source.type,
+            stage: "upsert",
+            entity: event.title,
+            message: err.message,
+          });
         }
-      } catch (err: any) {
-        errors.push(`Event ${listing.event?.title}: ${err.message}`);
       }
+
+      // Only a complete, unnarrowed fetch can tell us an event has gone missing
+      if (errors.length === 0 && !options.from && !options.to) {
+        const seen = new Set(changes.flatMap((c) => (c.festivalId ? [c.festivalId] : [])));
+        const missing = await markMissingEvents(source.id, seen, { dryRun: options.dryRun });
+        recordMissing(diff, missing);
+        const { flagged, cancelled } = missing;
+        flagged.forEach((name) => console.log(`  ❓ Missing from source: ${name}`));
+        cancelled.forEach((name) => console.log(`  ❌ Cancelled (gone from source): ${name}`));
+      }
+
+      if (!options.dryRun) {
+        await db
+          .update(scrapeSources)
+          .set({ lastScrapedAt: new Date() })
+          .where(eq(scrapeSources.id, source.id));
+      }
+    } catch (err: any) {
+      errors.push({ source: source.type, stage: "fetch", entity: null, message: err.message });
     }
-  } catch (err: any) {
-    errors.push(`Area ${areaName}: ${err.message}`);
   }
 
+  const created = changes.filter((c) => c.action === "created").length;
+  const updated = changes.filter((c) => c.action === "updated").length;
+
   const duration = Date.now() - startTime;
-  console.log(`  ✅ ${festivalsFound} events, ${artistsFound} artist slots in ${duration}ms`);
+  console.log(
+    `  ✅ ${festivalsFound} events (${created} new, ${updated} updated), ${artistsFound} artist slots in ${duration}ms`
+  );
   if (errors.length > 0) console.log(`  ⚠️  ${errors.length} errors`);
 
+  if (options.dryRun) return { festivalsFound, artistsFound, changes, errors };
+
   // Log the scrape
   await db.insert(scrapeLogs).values({
-    status: errors.length > 0 ? "partial" : "success",
+    sourceId: source.id,
+    job: "sync",
+    status:
+      errors.length === 0 ? "success" : festivalsFound > 0 ? "partial" : "error",
     festivalsFound,
+    eventsCreated: created,
+    eventsUpdated: updated,
     artistsFound,
-    errors: errors.slice(0, 20), // cap at 20
+    errors: errors.slice(0, MAX_LOGGED_ERRORS),
+    errorCount: errors.length,
     duration,
   });
 
-  return { festivalsFound, artistsFound, errors };
+  return { festivalsFound, artistsFound, changes, errors };
 }
 
-// --- Main ---
-async function main() {
-  const today = new Date();
-  const threeMonthsOut = new Date(today);
-  threeMonthsOut.setMonth(threeMonthsOut.getMonth() + 3);
+export async function syncCommand(options: CommandOptions): Promise<number> {
+  const diff = createDiff(options.dryRun);
+  console.log(`🎛️  Festival Pulse — Source Sync${options.dryRun ? " (dry run)" : ""}`);
 
-  const dateGte = today.toISOString().split("T")[0];
-  const dateLte = threeMonthsOut.toISOString().split("T")[0];
-
-  console.log("🎛️  Festival Pulse — RA Scraper");
-  console.log(`📅 Range: ${dateGte} → ${dateLte}\n`);
+  // --source syncs a single source (the scheduler runs them one by one)
+  const sources = await db
+    .select()
+    .from(scrapeSources)
+    .where(
+      options.source
+        ? eq(scrapeSources.id, options.source)
+        : eq(scrapeSources.enabled, true)
+    );
+
+  if (sources.length === 0) {
+    if (options.source) {
+      console.error(`No scrape source ${options.source}`);
+      return EXIT_FAILED;
+    }
+    console.log("No enabled scrape sources. Add one with `festival-pulse sources seed`.");
+    return EXIT_OK;
+  }
 
   let totalFestivals = 0;
   let totalArtists = 0;
 
-  // MVP: Costa Rica only
-  const targetAreas: [string, number][] = [
-    ["Costa Rica", 26],
-  ];
+  let failedSources = 0;
 
-  for (const [name, id] of targetAreas) {
-    const result = await syncArea(name, id, dateGte, dateLte);
+  for (const source of sources) {
+    const result = await syncSource(source, options, diff);
     totalFestivals += result.festivalsFound;
     totalArtists += result.artistsFound;
+    if (result.errors.length > 0 && result.festivalsFound === 0) failedSources++;
   }
 
+  emitDiff(diff, options);
   console.log(`\n🏁 Done! ${totalFestivals} events, ${totalArtists} artist slots synced.`);
+  return failedSources > 0 ? EXIT_FAILED : EXIT_OK;
 }
-
-main().catch(console.error);
@@ -0,0 +1,75 @@
+/**
+ * Deterministic stand-in for a language model
+ * Writes the same article every time for the same prompt, from the facts
+ * JSON block in it, so article generation can run offline and its checks
+ * can be exercised without a key or a GPU. TEXT_PROVIDER=fake to use it.
+ */
+import type { TextProvider } from "./types.js";
+
+interface PromptFacts {
+  name: string;
+  genres: string[];
+  events: { name: string; date: string | null; venue: string | null; city: string | null }[];
+  coBilled: string[];
+  links: { label: string; url: string }[];
+}
+
+function readFacts(prompt: string): PromptFacts {
+  const block = prompt.match(/```json\n([\s\S]*?)\n```/);
+  if (!block) throw new Error("fake text provider: no facts block in the prompt");
+  return JSON.parse(block[1]);
+}
+
+function list(items: string[]): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+export const fakeProvider: TextProvider = {
+  name: "fake",
+
+  async generate(request) {
+    const { name, genres, events, coBilled, links } = readFacts(request.prompt);
+    const sound = genres.length > 0 ? list(genres) : "electronic music";
+
+    const appearances =
+      events.length > 0
+        ? events.map((e) => {
+            const where = [e.venue, e.city].filter(Boolean).join(", ") || "venue TBA";
+            return `- **${e.name}** — ${e.date ?? "date TBA"}, ${where}`;
+          })
+        : ["No Costa Rica dates are listed yet; keep an eye on the calendar."];
+
+    return [
+      `# ${name}: Artist Spotlight`,
+      "",
+      `${name} is one of the names on the Festival Pulse radar this season. ` +
+        `This spotlight pulls together what we know about where to catch them in Costa Rica, ` +
+        `what their sets sound like and who else is on the bill, so you can plan the night around it.`,
+      "",
+      "## Sound & Style",
+      "",
+      `Expect ${sound}. On a good night that means a slow build, patient layering and a dancefloor ` +
+        `that is still there at sunrise. ${name} plays for the room rather than for the phone cameras, ` +
+        `and the best moments tend to arrive when nobody is checking the time.`,
+      "",
+      "## Costa Rica Appearances",
+      "",
+      ...appearances,
+      "",
+      "## Sharing the Bill",
+      "",
+      coBilled.length > 0
+        ? `${name} shares the lineup with ${list(coBilled)}. Arrive early and make a full night of it; ` +
+          `lineups like this one reward the people who stay for the whole journey.`
+        : `The rest of the lineup is still being announced. Check back as more names are confirmed ` +
+          `and the running order takes shape.`,
+      ...(links.length > 0
+        ? ["", "## Listen", "", ...links.map((l) => `- [${l.label}](${l.url})`)]
+        : []),
+      "",
+      `See you on the dancefloor. Whether this is your first time hearing ${name} or your tenth, ` +
+        `these are sets worth planning a weekend around, and Costa Rica is a fine place to do it.`,
+    ].join("\n");
+  },
+};
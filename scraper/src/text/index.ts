@@ -0,0 +1,29 @@
+/**
+ * Text generation providers
+ *
+ *   TEXT_PROVIDER   openai (default), local, or fake to work offline
+ */
+import { fakeProvider } from "./fake.js";
+import { localProvider } from "./local.js";
+import { openaiProvider } from "./openai.js";
+import type { TextProvider } from "./types.js";
+
+export * from "./types.js";
+
+const PROVIDERS: Record<string, TextProvider> = {
+  [openaiProvider.name]: openaiProvider,
+  [localProvider.name]: localProvider,
+  [fakeProvider.name]: fakeProvider,
+};
+
+export function supportedTextProviders(): string[] {
+  return Object.keys(PROVIDERS);
+}
+
+export function getTextProvider(name = process.env.TEXT_PROVIDER || "openai"): TextProvider {
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown text provider "${name}" (${supportedTextProviders().join(", ")})`);
+  }
+  return provider;
+}
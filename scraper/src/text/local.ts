@@ -0,0 +1,23 @@
+/**
+ * A model running on this machine or the LAN
+ * Ollama and llama.cpp's server both speak the OpenAI chat API under
+ * /v1, so this is the OpenAI provider without a key.
+ *
+ *   LOCAL_LLM_URL     default http://localhost:11434/v1 (Ollama)
+ *   LOCAL_LLM_MODEL   default llama3.1
+ */
+import { chatCompletion } from "./openai.js";
+import type { TextProvider } from "./types.js";
+
+export const localProvider: TextProvider = {
+  name: "local",
+
+  async generate(request) {
+    return chatCompletion(
+      process.env.LOCAL_LLM_URL || "http://localhost:11434/v1",
+      null,
+      process.env.LOCAL_LLM_MODEL || "llama3.1",
+      request
+    );
+  },
+};
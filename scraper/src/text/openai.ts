@@ -0,0 +1,69 @@
+/**
+ * OpenAI-compatible chat completions
+ * The same request works against OpenAI and anything that copies its
+ * API (OpenRouter, Groq, Together...), so only the URL, key and model
+ * change.
+ *
+ *   OPENAI_API_KEY    required
+ *   OPENAI_BASE_URL   default https://api.openai.com/v1
+ *   OPENAI_MODEL      default gpt-4o-mini
+ */
+import { fetchWithRetry } from "../http.js";
+import type { TextProvider, TextRequest } from "./types.js";
+
+const REQUEST_TIMEOUT_MS = 120_000;
+
+interface ChatCompletion {
+  choices: { message: { content: string | null }; finish_reason: string }[];
+}
+
+/** POSTs one chat completion and returns the reply's text. */
+export async function chatCompletion(
+  baseUrl: string,
+  apiKey: string | null,
+  model: string,
+  request: TextRequest
+): Promise<string> {
+  const res = await fetchWithRetry(
+    `${baseUrl.replace(/\/+$/, "")}/chat/completions`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: "system", content: request.system },
+          { role: "user", content: request.prompt },
+        ],
+        max_tokens: request.maxTokens ?? 1500,
+        temperature: request.temperature ?? 0.7,
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    },
+    { retries: 2 }
+  );
+
+  const { choices } = (await res.json()) as ChatCompletion;
+  const choice = choices?.[0];
+  if (!choice?.message.content) throw new Error(`${model} returned no text`);
+  if (choice.finish_reason === "length") throw new Error(`${model} ran out of tokens mid-article`);
+  return choice.message.content;
+}
+
+export const openaiProvider: TextProvider = {
+  name: "openai",
+
+  async generate(request) {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) throw new Error("OPENAI_API_KEY is not set");
+    return chatCompletion(
+      process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+      apiKey,
+      process.env.OPENAI_MODEL || "gpt-4o-mini",
+      request
+    );
+  },
+};
@@ -0,0 +1,18 @@
+/**
+ * Text generation contract
+ * A provider turns a system message and a prompt into text. Prompts are
+ * built and output is checked by the caller (see generate-articles.ts),
+ * so providers only differ in where the words come from.
+ */
+
+export interface TextRequest {
+  system: string;
+  prompt: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface TextProvider {
+  name: string;
+  generate(request: TextRequest): Promise<string>;
+}
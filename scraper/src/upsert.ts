@@ -0,0 +1,487 @@
+/**
+ * Shared upsert path for normalized events
+ * Every source adapter and re-scrape goes through upsertEvent(), which
+ * creates or updates the festival row, its venue, artists and lineup,
+ * and reports exactly what changed.
+ */
+import { db } from "./db.js";
+import { classifyEvent } from "./classify.js";
+import { resolveVenue, upsertVenue } from "./venues.js";
+import { DedupCandidate, DedupMatch, findDuplicate, queueForReview } from "./dedup.js";
+import type { NormalizedArtist, NormalizedEvent } from "./sources/index.js";
+import { and, eq, inArray, isNull, like, ne, or, sql } from "drizzle-orm";
+import {
+  artists,
+  artistExternalIds,
+  festivals,
+  festivalLineups,
+} from "../../web/src/db/schema.js";
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface EventChange {
+  action: "created" | "updated" | "unchanged";
+  festivalId: string | null; // null for an event a dry run would create
+  source: string;
+  title: string;
+  fields: string[];
+  values: Record<string, FieldChange>;
+  artistsAdded: string[];
+  artistsRemoved: string[];
+  newArtists: string[]; // artists with no row yet
+  newVenue: string | null; // venue with no row yet
+  duplicateOf?: DedupMatch; // set when dedup matched or queued this event
+}
+
+export interface UpsertOptions {
+  sourceId?: string; // scrape_sources row the event came from
+  dryRun?: boolean; // work out the change, write nothing
+}
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+// RA slugs predate the other sources, keep them stable
+export function eventSlug(event: NormalizedEvent): string {
+  const base = slugify(event.title);
+  return event.source === "ra"
+    ? `${base}-${event.externalId}`
+    : `${base}-${event.source}-${event.externalId}`;
+}
+
+async function linkExternalId(
+  artistId: string,
+  source: string,
+  artist: NormalizedArtist
+) {
+  if (!artist.externalId) return;
+  await db
+    .insert(artistExternalIds)
+    .values({ artistId, source, externalId: artist.externalId, url: artist.url })
+    .onConflictDoNothing();
+}
+
+// Only RA hands us a real profile URL; replace the slug-based guesses we used to store
+async function refreshRAUrl(artistId: string, source: string, artist: NormalizedArtist) {
+  if (source !== "ra" || !artist.url) return;
+  await db
+    .update(artists)
+    .set({ raUrl: artist.url, updatedAt: new Date() })
+    .where(
+      and(
+        eq(artists.id, artistId),
+        or(
+          isNull(artists.raUrl),
+          and(like(artists.raUrl, "https://ra.co/dj/%"), ne(artists.raUrl, artist.url))
+        )
+      )
+    );
+}
+
+type ArtistMatch =
+  | { id: string; mapped: boolean } // mapped: matched on the external id
+  | { id: null; slug: string }; // no row yet; the slug it would get
+
+/**
+ * Resolves an artist by its external id on the source first, then by name.
+ * A name match that already belongs to a different id on the same source
+ * is a namesake, so it gets its own row.
+ */
+export async function findArtist(
+  artist: NormalizedArtist,
+  source: string
+): Promise<ArtistMatch> {
+  if (artist.externalId) {
+    const [mapped] = await db
+      .select({ artistId: artistExternalIds.artistId })
+      .from(artistExternalIds)
+      .where(
+        and(
+          eq(artistExternalIds.source, source),
+          eq(artistExternalIds.externalId, artist.externalId)
+        )
+      )
+      .limit(1);
+
+    if (mapped) return { id: mapped.artistId, mapped: true };
+  }
+
+  let slug = slugify(artist.name);
+  const [existing] = await db
+    .select()
+    .from(artists)
+    .where(eq(artists.slug, slug))
+    .limit(1);
+
+  if (existing) {
+    const [namesake] = artist.externalId
+      ? await db
+          .select({ id: artistExternalIds.id })
+          .from(artistExternalIds)
+          .where(
+            and(
+              eq(artistExternalIds.artistId, existing.id),
+              eq(artistExternalIds.source, source)
+            )
+          )
+          .limit(1)
+      : [];
+
+    if (!namesake) return { id: existing.id, mapped: false };
+
+    slug = `${slug}-${source}-${artist.externalId}`;
+  }
+
+  return { id: null, slug };
+}
+
+export async function upsertArtist(artist: NormalizedArtist, source: string) {
+  const match = await findArtist(artist, source);
+  if (match.id !== null) {
+    if (!match.mapped) await linkExternalId(match.id, source, artist);
+    await refreshRAUrl(match.id, source, artist);
+    return match.id;
+  }
+
+  const [inserted] = await db
+    .insert(artists)
+    .values({
+      name: artist.name,
+      slug: match.slug,
+      raUrl: source === "ra" ? artist.url : null,
+    })
+    .returning({ id: artists.id });
+
+  await linkExternalId(inserted.id, source, artist);
+  return inserted.id;
+}
+
+/**
+ * Finds the festival previously synced from this source event,
+ * by its external id (metadata.raId, metadata.shotgunId...) or slug.
+ */
+async function findFestival(event: NormalizedEvent) {
+  const idKey = `${event.source}Id`;
+  const byId = await db
+    .select()
+    .from(festivals)
+    .where(sql`${festivals.metadata}->>${idKey} = ${event.externalId}`)
+    .limit(1);
+  if (byId.length > 0) return byId[0];
+
+  const bySlug = await db
+    .select()
+    .from(festivals)
+    .where(eq(festivals.slug, eventSlug(event)))
+    .limit(1);
+  return bySlug[0] || null;
+}
+
+export function toDedupCandidate(event: NormalizedEvent): DedupCandidate {
+  return {
+    title: event.title,
+    startDate: event.startDate,
+    endDate: event.endDate,
+    venueName: event.venue?.name || null,
+    artistNames: event.artists.map((a) => a.name),
+    source: event.source,
+    externalId: event.externalId,
+  };
+}
+
+// The source that created a row owns it; legacy RA rows predate metadata.source
+function ownerOf(metadata: unknown): string | null {
+  const meta = (metadata || {}) as Record<string, unknown>;
+  if (typeof meta.source === "string") return meta.source;
+  return meta.raId ? "ra" : null;
+}
+
+function lockedFields(metadata: unknown): Set<string> {
+  const meta = (metadata || {}) as Record<string, unknown>;
+  return new Set(Array.isArray(meta.lockedFields) ? (meta.lockedFields as string[]) : []);
+}
+
+function loadLineup(festivalId: string) {
+  return db
+    .select({
+      id: festivalLineups.id,
+      artistId: festivalLineups.artistId,
+      source: festivalLineups.source,
+      performanceDate: festivalLineups.performanceDate,
+      startTime: festivalLineups.startTime,
+      endTime: festivalLineups.endTime,
+      name: artists.name,
+    })
+    .from(festivalLineups)
+    .innerJoin(artists, eq(festivalLineups.artistId, artists.id))
+    .where(eq(festivalLineups.festivalId, festivalId));
+}
+
+/**
+ * Brings the festival's lineup in line with the event's, recording what
+ * moved on `change`. With festivalId null (a dry run's new event) or
+ * dryRun set it only records. Rows from before lineup sources were kept
+ * have none; on a festival the source owns they're taken to be its own.
+ */
+async function syncLineup(
+  festivalId: string | null,
+  event: NormalizedEvent,
+  change: EventChange,
+  dryRun: boolean,
+  owns = true
+) {
+  const wanted = new Map<string, string>(); // artistId -> name
+  for (const artist of event.artists) {
+    if (!dryRun) {
+      wanted.set(await upsertArtist(artist, event.source), artist.name);
+      continue;
+    }
+    const match = await findArtist(artist, event.source);
+    if (match.id !== null) {
+      wanted.set(match.id, artist.name);
+    } else {
+      change.newArtists.push(artist.name);
+      change.artistsAdded.push(artist.name);
+    }
+  }
+
+  const current = festivalId ? await loadLineup(festivalId) : [];
+  const write = festivalId !== null && !dryRun;
+
+  const currentIds = new Set(current.map((row) => row.artistId));
+  const now = new Date();
+  const fromSource = (row: (typeof current)[number]) =>
+    row.source === event.source || (row.source === null && owns);
+
+  for (const [artistId, name] of wanted) {
+    if (currentIds.has(artistId)) continue;
+    change.artistsAdded.push(name);
+    if (!write) continue;
+    await db
+      .insert(festivalLineups)
+      .values({
+        festivalId: festivalId!,
+        artistId,
+        source: event.source,
+        performanceDate: event.startDate,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        announcedAt: now,
+      })
+      .onConflictDoNothing();
+  }
+
+  // Only rows this source created can be dropped — curated rows stay
+  const dropped = current.filter((row) => fromSource(row) && !wanted.has(row.artistId));
+  change.artistsRemoved.push(...dropped.map((row) => row.name));
+  if (dropped.length > 0 && write) {
+    await db.delete(festivalLineups).where(
+      inArray(
+        festivalLineups.id,
+        dropped.map((row) => row.id)
+      )
+    );
+  }
+
+  // Keep set times in step with the source
+  const stale = current.filter(
+    (row) =>
+      fromSource(row) &&
+      wanted.has(row.artistId) &&
+      (row.performanceDate !== event.startDate ||
+        row.startTime !== event.startTime ||
+        row.endTime !== event.endTime)
+  );
+  if (stale.length > 0) change.fields.push("setTimes");
+  if (stale.length > 0 && write) {
+    await db
+      .update(festivalLineups)
+      .set({
+        source: event.source,
+        performanceDate: event.startDate,
+        startTime: event.startTime,
+        endTime: event.endTime,
+      })
+      .where(
+        and(
+          eq(festivalLineups.festivalId, festivalId!),
+          inArray(
+            festivalLineups.id,
+            stale.map((row) => row.id)
+          )
+        )
+      );
+  }
+}
+
+export async function upsertEvent(
+  event: NormalizedEvent,
+  options: UpsertOptions = {}
+): Promise<EventChange> {
+  const now = new Date();
+  const dryRun = !!options.dryRun;
+
+  let venueId: string | null;
+  let newVenue: string | null = null;
+  if (!dryRun) {
+    venueId = await upsertVenue(event.venue, event.source);
+  } else {
+    venueId = event.venue?.name
+      ? (await resolveVenue(event.venue, event.source))?.id ?? null
+      : null;
+    if (event.venue?.name && !venueId) newVenue = event.venue.name;
+  }
+
+  let existing = await findFestival(event);
+
+  // Not seen from this source before — is it already here from another one?
+  let duplicate: DedupMatch | null = null;
+  if (!existing) {
+    duplicate = await findDuplicate(toDedupCandidate(event));
+    if (duplicate?.decision === "merge") {
+      [existing] = await db
+        .select()
+        .from(festivals)
+        .where(eq(festivals.id, duplicate.festivalId));
+    }
+  }
+
+  const values = {
+    name: event.title,
+    startDate: event.startDate,
+    endDate: event.endDate,
+    venueId,
+    websiteUrl: event.websiteUrl,
+    ticketUrl: event.ticketUrl,
+    imageUrl: event.imageUrl,
+    eventType: classifyEvent({
+      ...event,
+      artistCount: event.artists.length,
+    }) as string | null,
+  };
+
+  if (!existing) {
+    const change: EventChange = {
+      action: "created",
+      festivalId: null,
+      source: event.source,
+      title: event.title,
+      fields: [],
+      values: {},
+      artistsAdded: [],
+      artistsRemoved: [],
+      newArtists: [],
+      newVenue,
+      duplicateOf: duplicate || undefined,
+    };
+    for (const [key, value] of Object.entries(values)) {
+      if (value !== null) change.values[key] = { from: null, to: value };
+    }
+
+    if (dryRun) {
+      await syncLineup(null, event, change, true);
+      return change;
+    }
+
+    const [inserted] = await db
+      .insert(festivals)
+      .values({
+        ...values,
+        slug: eventSlug(event),
+        status: event.cancelled ? "cancelled" : "upcoming",
+        sourceId: options.sourceId ?? null,
+        lastSeenAt: now,
+        missedSyncs: 0,
+        metadata: { source: event.source, ...event.metadata },
+      })
+      .returning({ id: festivals.id });
+
+    change.festivalId = inserted.id;
+    if (duplicate) await queueForReview(inserted.id, duplicate);
+    await syncLineup(inserted.id, event, change, false);
+    return change;
+  }
+
+  // A source that stops sending a value doesn't wipe what we have, and a
+  // source that doesn't own the row only fills in what's missing. Fields
+  // set by hand in curation/overrides.json are locked against every source.
+  const owns = ownerOf(existing.metadata) === event.source;
+  const locked = lockedFields(existing.metadata);
+  const updates: Partial<typeof values> = {};
+  for (const [key, value] of Object.entries(values) as [keyof typeof values, string | null][]) {
+    if (value === null || value === existing[key] || locked.has(key)) continue;
+    if (owns || existing[key] === null) updates[key] = value;
+  }
+
+  // The owning source can call an event off, or bring it back
+  const ownsStatus = owns && !locked.has("status");
+  let status: string | undefined;
+  if (ownsStatus && event.cancelled && existing.status !== "cancelled") {
+    status = "cancelled";
+  } else if (ownsStatus && !event.cancelled && existing.status === "cancelled") {
+    status = "upcoming"; // the lifecycle job moves it on from here
+  }
+
+  const change: EventChange = {
+    action: "updated",
+    festivalId: existing.id,
+    source: event.source,
+    title: event.title,
+    fields: [...Object.keys(updates), ...(status ? ["status"] : [])],
+    values: {},
+    artistsAdded: [],
+    artistsRemoved: [],
+    newArtists: [],
+    newVenue,
+    duplicateOf: duplicate || undefined,
+  };
+  for (const key of Object.keys(updates) as (keyof typeof values)[]) {
+    change.values[key] = { from: existing[key], to: updates[key] };
+  }
+  if (status) change.values.status = { from: existing.status, to: status };
+  await syncLineup(existing.id, event, change, dryRun, owns);
+
+  const changed =
+    change.fields.length > 0 ||
+    change.artistsAdded.length > 0 ||
+    change.artistsRemoved.length > 0;
+  if (!changed) change.action = "unchanged";
+  if (dryRun) return change;
+
+  await db
+    .update(festivals)
+    .set({
+      ...updates,
+      ...(status ? { status } : {}),
+      sourceId: owns && options.sourceId ? options.sourceId : existing.sourceId,
+      lastSeenAt: now,
+      missedSyncs: 0,
+      metadata: {
+        ...event.metadata,
+        ...(existing.metadata as Record<string, unknown>),
+        ...(owns ? event.metadata : {}),
+        [`${event.source}Id`]: event.externalId,
+        // Rows nobody synced were curated by hand; keep them that way
+        source: ownerOf(existing.metadata) || "manual",
+      },
+      ...(changed ? { updatedAt: now } : {}),
+    })
+    .where(eq(festivals.id, existing.id));
+
+  return change;
+}
+
+export function describeChange(change: EventChange): string {
+  const parts: string[] = [];
+  if (change.fields.length > 0) parts.push(`changed ${change.fields.join(", ")}`);
+  if (change.artistsAdded.length > 0) parts.push(`+${change.artistsAdded.join(", +")}`);
+  if (change.artistsRemoved.length > 0) parts.push(`-${change.artistsRemoved.join(", -")}`);
+  return `${change.title}${parts.length > 0 ? `: ${parts.join("; ")}` : ""}`;
+}
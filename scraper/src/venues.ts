@@ -0,0 +1,244 @@
+/**
+ * Venue resolution
+ * Venues are matched on their external id first, then on a fuzzy
+ * name + city comparison, so "Û Kóko Club" and "U Koko" end up as one row.
+ * A fuzzy match needs both cities known and the same; a venue the source
+ * already knows under another id is never a match. New venues, and old
+ * ones still missing coordinates, are geocoded.
+ */
+import { db } from "./db.js";
+import { geocode, lookupPlace } from "./geo/index.js";
+import type { NormalizedVenue } from "./sources/index.js";
+import { and, eq, ilike, inArray, isNull, or, SQL } from "drizzle-orm";
+import { venues, venueExternalIds } from "../../web/src/db/schema.js";
+
+const VENUE_MATCH_THRESHOLD = 0.75;
+
+const VENUE_STOPWORDS = new Set(["the", "la", "el", "los", "las", "de", "del"]);
+
+// Words a name is given with or without: "U Koko" is "Û Kóko Club"
+const VENUE_KINDS = new Set(["club", "bar", "lounge"]);
+
+type VenueRow = typeof venues.$inferSelect;
+
+// source → the venue's ids on it
+export type VenueIds = Map<string, Set<string>>;
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function nameTokens(name: string): string[] {
+  return normalize(name)
+    .split(" ")
+    .filter((t) => t && !VENUE_STOPWORDS.has(t));
+}
+
+export function venueNameSimilarity(a: string, b: string): number {
+  const ta = nameTokens(a);
+  const tb = nameTokens(b);
+  if (ta.length === 0 || tb.length === 0) return normalize(a) === normalize(b) ? 1 : 0;
+
+  if (ta.join(" ") === tb.join(" ")) return 1;
+
+  // One name inside the other counts only when all it leaves out is the kind of venue
+  const [short, long] = ta.length <= tb.length ? [ta, tb] : [tb, ta];
+  if (
+    ` ${long.join(" ")} `.includes(` ${short.join(" ")} `) &&
+    long.filter((t) => !short.includes(t)).every((t) => VENUE_KINDS.has(t))
+  ) {
+    return 0.85;
+  }
+
+  const sa = new Set(ta);
+  const shared = tb.filter((t) => sa.has(t)).length;
+  return shared / (sa.size + new Set(tb).size - shared);
+}
+
+function sameCity(a: string, b: string): boolean {
+  const pa = lookupPlace(a);
+  const pb = lookupPlace(b);
+  if (pa && pb) return pa === pb;
+  const na = normalize(a);
+  const nb = normalize(b);
+  return na.includes(nb) || nb.includes(na);
+}
+
+/**
+ * How alike two venues are, or null when they aren't the same place.
+ * Without both cities to compare only the exact name will do.
+ */
+export function venueMatchScore(
+  a: { name: string; city: string | null },
+  b: { name: string; city: string | null }
+): number | null {
+  const score = venueNameSimilarity(a.name, b.name);
+  if (!a.city || !b.city) return score === 1 ? score : null;
+  return sameCity(a.city, b.city) && score >= VENUE_MATCH_THRESHOLD ? score : null;
+}
+
+/**
+ * Whether two venues have ids from the same source and none in common:
+ * the source itself tells them apart, however alike their names.
+ */
+export function venueIdsConflict(a: VenueIds | undefined, b: VenueIds | undefined): boolean {
+  if (!a || !b) return false;
+  for (const [source, ids] of a) {
+    const other = b.get(source);
+    if (other && ![...ids].some((id) => other.has(id))) return true;
+  }
+  return false;
+}
+
+/** External ids by venue, for the given venues or all of them. */
+export async function loadVenueIds(venueIds?: string[]): Promise<Map<string, VenueIds>> {
+  if (venueIds?.length === 0) return new Map();
+  const rows = await db
+    .select()
+    .from(venueExternalIds)
+    .where(venueIds ? inArray(venueExternalIds.venueId, venueIds) : undefined);
+
+  const byVenue = new Map<string, VenueIds>();
+  for (const row of rows) {
+    const ids = byVenue.get(row.venueId) ?? new Map<string, Set<string>>();
+    ids.set(row.source, (ids.get(row.source) ?? new Set()).add(row.externalId));
+    byVenue.set(row.venueId, ids);
+  }
+  return byVenue;
+}
+
+// Rows worth scoring: same country, and the same city or none on file
+function candidateFilter(venue: NormalizedVenue): SQL | undefined {
+  const filters: (SQL | undefined)[] = [];
+  if (venue.country) {
+    filters.push(or(eq(venues.country, venue.country), isNull(venues.country)));
+  }
+  if (venue.city) {
+    const place = lookupPlace(venue.city, venue.country);
+    const names = place ? [place.name, ...(place.aliases || [])] : [venue.city];
+    const spellings = [...new Set(names.flatMap((n) => [n, normalize(n)]))];
+    filters.push(or(isNull(venues.city), ...spellings.map((n) => ilike(venues.city, `%${n}%`))));
+  }
+  return and(...filters);
+}
+
+export async function findVenue(
+  venue: NormalizedVenue,
+  source: string | null = null
+): Promise<VenueRow | null> {
+  const candidates = await db.select().from(venues).where(candidateFilter(venue));
+
+  const known =
+    source && venue.externalId
+      ? await loadVenueIds(candidates.map((c) => c.id))
+      : new Map<string, VenueIds>();
+  const ids: VenueIds | undefined =
+    source && venue.externalId ? new Map([[source, new Set([venue.externalId])]]) : undefined;
+
+  let best: { row: VenueRow; score: number } | null = null;
+  for (const row of candidates) {
+    if (venueIdsConflict(known.get(row.id), ids)) continue;
+    const score = venueMatchScore(row, venue);
+    if (score === null) continue;
+    if (!best || score > best.score) best = { row, score };
+  }
+  return best?.row || null;
+}
+
+async function findByExternalId(source: string, externalId: string) {
+  const [row] = await db
+    .select({ venue: venues })
+    .from(venueExternalIds)
+    .innerJoin(venues, eq(venueExternalIds.venueId, venues.id))
+    .where(
+      and(
+        eq(venueExternalIds.source, source),
+        eq(venueExternalIds.externalId, externalId)
+      )
+    )
+    .limit(1);
+  return row?.venue || null;
+}
+
+async function coordinatesFor(venue: NormalizedVenue) {
+  if (venue.latitude != null && venue.longitude != null) {
+    return { latitude: venue.latitude, longitude: venue.longitude };
+  }
+  const result = await geocode(venue);
+  return result ? { latitude: result.latitude, longitude: result.longitude } : null;
+}
+
+/** The existing venue a source venue refers to, without writing anything. */
+export async function resolveVenue(
+  venue: NormalizedVenue,
+  source: string | null
+): Promise<VenueRow | null> {
+  const byId =
+    source && venue.externalId
+      ? await findByExternalId(source, venue.externalId)
+      : null;
+  return byId ?? (await findVenue(venue, source));
+}
+
+/**
+ * Returns the id of the venue this source venue refers to, creating it
+ * when nothing matches. Missing city/address/coordinates get filled in.
+ */
+export async function upsertVenue(
+  venue: NormalizedVenue | null,
+  source: string | null
+): Promise<string | null> {
+  if (!venue?.name) return null;
+
+  const existing = await resolveVenue(venue, source);
+
+  let venueId: string;
+
+  if (existing) {
+    venueId = existing.id;
+
+    const updates: Partial<VenueRow> = {};
+    if (!existing.city && venue.city) updates.city = venue.city;
+    if (!existing.country && venue.country) updates.country = venue.country;
+    if (!existing.address && venue.address) updates.address = venue.address;
+    if (existing.latitude == null || existing.longitude == null) {
+      const coords = await coordinatesFor(venue);
+      if (coords) Object.assign(updates, coords);
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await db
+        .update(venues)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(venues.id, venueId));
+    }
+  } else {
+    const coords = await coordinatesFor(venue);
+    const [inserted] = await db
+      .insert(venues)
+      .values({
+        name: venue.name,
+        city: venue.city,
+        country: venue.country,
+        address: venue.address,
+        latitude: coords?.latitude ?? null,
+        longitude: coords?.longitude ?? null,
+      })
+      .returning({ id: venues.id });
+    venueId = inserted.id;
+  }
+
+  if (source && venue.externalId) {
+    await db
+      .insert(venueExternalIds)
+      .values({ venueId, source, externalId: venue.externalId })
+      .onConflictDoNothing();
+  }
+
+  return venueId;
+}
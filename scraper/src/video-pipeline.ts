@@ -1,212 +1,471 @@
 /**
  * Video Reel Pipeline
- * 1. Search YouTube for artist DJ sets / performances
- * 2. Download best clips
- * 3. Extract highlight segments (intro/peak moments)
- * 4. Compile into a short reel (60-90 sec)
+ * 1. Search the video providers for artist DJ sets / performances
+ * 2. Download best clips (cached by upload and offsets, so reruns and
+ *    batch builds don't fetch the same segment twice)
+ * 3. Extract highlight segments (drops and high-energy stretches, see
+ *    highlights.ts) and save their offsets on the spotlight's videoClips
+ * 4. Render the reel in every format (9:16, 1:1, 16:9) with intro and
+ *    outro cards, lineup overlays and crossfades, plus posters (see reel.ts)
+ * 5. Upload reels and posters (see storage/), link them and the clips they
+ *    were cut from on the spotlight, and delete the working files
+ *
+ *   festival-pulse reel build --artist <slug> [--dry-run]
+ *
+ * reel-batch.ts builds them for a whole festival lineup.
  */
 
-import { execSync } from "child_process";
-import { existsSync, mkdirSync, readdirSync, unlinkSync } from "fs";
+import { db } from "./db.js";
+import { CommandOptions, EXIT_FAILED, EXIT_OK, EXIT_USAGE } from "./options.js";
+import { createHash, randomBytes } from "crypto";
+import { existsSync, mkdirSync, readdirSync, renameSync, rmSync, statSync, utimesSync } from "fs";
 import path from "path";
+import { clipRules, selectClips } from "./clip-relevance.js";
+import { analyzeAudio, findHighlights } from "./highlights.js";
+import { clipKey, getProvider, MediaProvider, searchMedia, toClip, VideoClip } from "./media/index.js";
+import { runConcurrently } from "./process.js";
+import {
+  CLIP_SECONDS,
+  compileReel,
+  extractPoster,
+  posterTime,
+  REEL_FORMATS,
+  ReelOverlay,
+} from "./reel.js";
+import { contentTypeFor, getStorage } from "./storage/index.js";
+import { eq } from "drizzle-orm";
+import {
+  artists,
+  artistSpotlights,
+  festivalLineups,
+  festivals,
+  venues,
+} from "../../web/src/db/schema.js";
 
-const VIDEOS_DIR = "/home/ubuntu/.openclaw/workspace/festival-pulse/videos";
-const REELS_DIR = "/home/ubuntu/.openclaw/workspace/festival-pulse/reels";
+const VIDEOS_DIR = path.resolve(process.env.VIDEOS_DIR || "videos");
+const REELS_DIR = path.resolve(process.env.REELS_DIR || "reels");
+const CACHE_DIR = path.join(VIDEOS_DIR, ".cache");
+const CACHE_MAX_AGE_DAYS = 14;
+const DOWNLOAD_CONCURRENCY = 2;
 
-// Ensure dirs exist
-[VIDEOS_DIR, REELS_DIR].forEach((d) => {
-  if (!existsSync(d)) mkdirSync(d, { recursive: true });
-});
+// Where in a set to listen for highlights, and how long to listen each time
+const PROBES = [0.25, 0.5, 0.75];
+const PROBE_SECONDS = 90;
+
+type ArtistRow = typeof artists.$inferSelect;
+
+interface ReelOutput {
+  format: string; // "9:16"
+  videoPath: string;
+  posterPath: string | null;
+}
+
+interface PublishedReel {
+  format: string;
+  url: string;
+  posterUrl: string | null;
+}
+
+// The site embeds the landscape cut; the others are for social posts
+export const SITE_FORMAT = "16:9";
 
 interface ClipInfo {
+  provider: string;
   sourceUrl: string;
   title: string;
   startSec: number;
   endSec: number;
+  highlightScore?: number;
   localPath: string;
 }
 
 /**
- * Search YouTube for an artist's best content
+ * The artist's best filmed sets: search results from the video providers
+ * (see media/), run through the relevance scorer with their pins and blocks
  */
-export function searchYouTube(
+export async function findReelClips(
   artistName: string,
-  maxResults = 3
-): { url: string; title: string; duration: number }[] {
-  try {
-    const query = `${artistName} DJ set techno`;
-    const result = execSync(
-      `yt-dlp --no-download --print "%(webpage_url)s|||%(title)s|||%(duration)s" ` +
-        `--flat-playlist "ytsearch${maxResults}:${query}" 2>/dev/null`,
-      { encoding: "utf-8", timeout: 30000 }
-    ).trim();
-
-    return result
-      .split("\n")
-      .filter(Boolean)
-      .map((line) => {
-        const [url, title, dur] = line.split("|||");
-        return { url, title, duration: parseInt(dur) || 0 };
-      })
-      .filter((v) => v.duration > 60); // Skip very short videos
-  } catch (err) {
-    console.error(`  YouTube search failed for ${artistName}`);
-    return [];
-  }
+  metadata: unknown,
+  maxClips = 3
+): Promise<VideoClip[]> {
+  const results = await searchMedia(artistName, { kind: "video" });
+  const candidates = results
+    .filter((r) => !r.durationSec || r.durationSec > 60) // Skip very short videos
+    .map((r) => toClip(r, CLIP_SECONDS));
+
+  const rules = clipRules(metadata);
+  // A pinned SoundCloud set is fine on the artist page, but has no picture
+  rules.pinned = rules.pinned.filter((clip) => getProvider(clip.provider ?? "youtube")?.kind === "video");
+
+  return selectClips(artistName, candidates, rules, maxClips).clips;
 }
 
+// Segments being downloaded now, by cache file
+const downloading = new Map<string, Promise<string | null>>();
+
 /**
- * Download a segment of a YouTube video
+ * Downloads a section of an upload, or returns the copy already in the
+ * cache. Segments are keyed by upload and offsets; a download goes to a
+ * temporary name first so an interrupted one is never mistaken for a hit.
+ * Builds asking for a segment that's already on its way share the download.
  */
-export function downloadClip(
-  url: string,
-  outputPath: string,
+async function cachedDownload(
+  provider: MediaProvider,
+  sourceUrl: string,
   startSec: number,
-  durationSec: number
-): boolean {
-  try {
-    // Download with yt-dlp, use ffmpeg to extract segment
-    const tmpFile = outputPath.replace(".mp4", "_full.mp4");
-
-    // Download section using yt-dlp's built-in section downloading
-    execSync(
-      `yt-dlp -f "bestvideo[height<=720]+bestaudio/best[height<=720]" ` +
-        `--download-sections "*${startSec}-${startSec + durationSec}" ` +
-        `--merge-output-format mp4 ` +
-        `--no-playlist ` +
-        `-o "${outputPath}" ` +
-        `"${url}" 2>/dev/null`,
-      { timeout: 120000 }
-    );
+  durationSec: number,
+  audioOnly = false
+): Promise<string | null> {
+  const id =
+    clipKey(sourceUrl)?.replace(/[^\w-]+/g, "_") ??
+    createHash("sha1").update(sourceUrl).digest("hex").slice(0, 16);
+  const ext = audioOnly ? ".m4a" : ".mp4";
+  const file = path.join(CACHE_DIR, `${id}_${startSec}-${startSec + durationSec}${ext}`);
+  if (existsSync(file)) {
+    const now = new Date();
+    utimesSync(file, now, now); // keeps it out of the next prune
+    return file;
+  }
+
+  let pending = downloading.get(file);
+  if (!pending) {
+    mkdirSync(CACHE_DIR, { recursive: true });
+    pending = (async () => {
+      // A name of its own, so another process fetching the same segment can't clobber it
+      const partial = file.replace(ext, `.${process.pid}-${randomBytes(4).toString("hex")}.download${ext}`);
+      try {
+        const ok = await provider.download(sourceUrl, partial, startSec, durationSec, { audioOnly });
+        if (!ok) return null;
+        renameSync(partial, file);
+        return file;
+      } finally {
+        rmSync(partial, { force: true });
+        downloading.delete(file);
+      }
+    })();
+    downloading.set(file, pending);
+  }
+  return pending;
+}
 
-    return existsSync(outputPath);
-  } catch (err) {
-    console.error(`  Download failed for ${url}`);
-    return false;
+/** Deletes cached segments no build has used in CACHE_MAX_AGE_DAYS. */
+export function pruneDownloadCache(maxAgeDays = CACHE_MAX_AGE_DAYS) {
+  if (!existsSync(CACHE_DIR)) return;
+  const cutoff = Date.now() - maxAgeDays * 86_400_000;
+  let removed = 0;
+  for (const name of readdirSync(CACHE_DIR)) {
+    const file = path.join(CACHE_DIR, name);
+    if (statSync(file).mtimeMs < cutoff) {
+      rmSync(file, { force: true });
+      removed++;
+    }
   }
+  if (removed > 0) console.log(`🧹 Removed ${removed} stale segments from the download cache`);
 }
 
 /**
- * Create a vertical (9:16) reel from multiple clips
+ * Listens to a few stretches of a set and returns its best CLIP_SECONDS,
+ * or null when the set is too short or nothing could be downloaded
  */
-export function compileReel(
-  clips: string[],
-  outputPath: string,
-  maxDurationSec = 60
-): boolean {
-  try {
-    if (clips.length === 0) return false;
-
-    // Calculate duration per clip
-    const clipDuration = Math.floor(maxDurationSec / clips.length);
-
-    // Build FFmpeg filter for concatenation + vertical crop
-    const inputs = clips.map((c, i) => `-i "${c}"`).join(" ");
-    const filterParts = clips
-      .map(
-        (_, i) =>
-          `[${i}:v]trim=0:${clipDuration},setpts=PTS-STARTPTS,scale=1080:1920:force_original_aspect_ratio=increase,crop=1080:1920,fps=30[v${i}];` +
-          `[${i}:a]atrim=0:${clipDuration},asetpts=PTS-STARTPTS,afade=t=out:st=${clipDuration - 1}:d=1[a${i}];`
-      )
-      .join("");
-
-    const concatInputs = clips.map((_, i) => `[v${i}][a${i}]`).join("");
-
-    execSync(
-      `ffmpeg -y ${inputs} ` +
-        `-filter_complex "${filterParts}${concatInputs}concat=n=${clips.length}:v=1:a=1[outv][outa]" ` +
-        `-map "[outv]" -map "[outa]" ` +
-        `-c:v libx264 -preset fast -crf 23 ` +
-        `-c:a aac -b:a 128k ` +
-        `"${outputPath}" 2>/dev/null`,
-      { timeout: 180000 }
-    );
+async function detectHighlight(
+  video: VideoClip,
+  provider: MediaProvider
+): Promise<{ startSec: number; endSec: number; score: number } | null> {
+  const duration = video.durationSec;
+  if (!duration || duration < PROBE_SECONDS * 2) return null;
+
+  let best: { startSec: number; endSec: number; score: number } | null = null;
+  for (const position of PROBES) {
+    const probeStart = Math.round(duration * position);
+    const probeLength = Math.min(PROBE_SECONDS, Math.floor(duration - probeStart));
+
+    const probePath = await cachedDownload(provider, video.sourceUrl, probeStart, probeLength, true);
+    if (!probePath) continue;
+
+    try {
+      const [highlight] = findHighlights(await analyzeAudio(probePath), CLIP_SECONDS);
+      if (highlight && (!best || highlight.score > best.score)) {
+        best = {
+          startSec: probeStart + highlight.startSec,
+          endSec: probeStart + highlight.endSec,
+          score: highlight.score,
+        };
+      }
+    } catch (err: any) {
+      console.error(`  Highlight analysis failed for ${video.title}: ${err.message}`);
+    }
+  }
+  return best;
+}
+
+/** Writes detected offsets onto the matching clips of the artist's spotlight. */
+async function saveHighlights(artistId: string, clips: ClipInfo[]) {
+  const [spotlight] = await db
+    .select()
+    .from(artistSpotlights)
+    .where(eq(artistSpotlights.artistId, artistId))
+    .limit(1);
+  if (!spotlight) return;
+
+  const detected = new Map(
+    clips
+      .filter((c) => c.highlightScore !== undefined)
+      .map((c) => [clipKey(c.sourceUrl), c])
+  );
+  let changed = 0;
+  const videoClips = ((spotlight.videoClips || []) as VideoClip[]).map((clip) => {
+    const match = detected.get(clipKey(clip.sourceUrl));
+    if (!match || clip.pinned) return clip;
+    if (clip.startSec === match.startSec && clip.highlightScore === match.highlightScore) return clip;
+    changed++;
+    return { ...clip, startSec: match.startSec, endSec: match.endSec, highlightScore: match.highlightScore };
+  });
+  if (changed === 0) return;
+
+  await db
+    .update(artistSpotlights)
+    .set({ videoClips, updatedAt: new Date() })
+    .where(eq(artistSpotlights.id, spotlight.id));
+  console.log(`  💾 Saved highlight offsets for ${changed} clips`);
+}
+
+/**
+ * The overlay text for an artist's reel: their next gig from
+ * festival_lineups, or their latest one when nothing is coming up
+ */
+export async function reelOverlay(artist: ArtistRow): Promise<ReelOverlay> {
+  const gigs = await db
+    .select({
+      event: festivals.name,
+      performanceDate: festivalLineups.performanceDate,
+      startDate: festivals.startDate,
+      venue: venues.name,
+      city: venues.city,
+    })
+    .from(festivalLineups)
+    .innerJoin(festivals, eq(festivalLineups.festivalId, festivals.id))
+    .leftJoin(venues, eq(festivals.venueId, venues.id))
+    .where(eq(festivalLineups.artistId, artist.id));
 
-    return existsSync(outputPath);
-  } catch (err) {
-    console.error(`  Reel compilation failed`);
-    return false;
+  const today = new Date().toISOString().split("T")[0];
+  const dated = gigs
+    .map((g) => ({ ...g, date: g.performanceDate ?? g.startDate }))
+    .sort((a, b) => (a.date ?? "").localeCompare(b.date ?? ""));
+  const gig =
+    dated.find((g) => g.date && g.date >= today) ??
+    [...dated].reverse().find((g) => g.date) ??
+    dated[0];
+  if (!gig) return { artist: artist.name };
+
+  return {
+    artist: artist.name,
+    event: gig.event,
+    date: gig.date ?? undefined,
+    venue: gig.venue ? [gig.venue, gig.city].filter(Boolean).join(", ") : undefined,
+  };
+}
+
+/**
+ * Uploads rendered reels and posters and links them, with the clips they
+ * were cut from, on the artist's spotlight. URLs carry the build time so
+ * a rebuilt reel isn't served from a stale cache.
+ */
+async function publishReels(
+  artist: ArtistRow,
+  reels: ReelOutput[],
+  clips: ClipInfo[]
+): Promise<PublishedReel[]> {
+  const storage = getStorage();
+  const builtAt = new Date();
+  const upload = async (file: string) => {
+    const key = `reels/${artist.slug}/${path.basename(file).replace(`${artist.slug}-`, "")}`;
+    const { url } = await storage.put(file, key, contentTypeFor(file));
+    return `${url}?v=${builtAt.getTime()}`;
+  };
+
+  const published: PublishedReel[] = [];
+  for (const reel of reels) {
+    published.push({
+      format: reel.format,
+      url: await upload(reel.videoPath),
+      posterUrl: reel.posterPath ? await upload(reel.posterPath) : null,
+    });
+  }
+  console.log(`  ☁️  Uploaded ${published.length} reels to ${storage.name} storage`);
+
+  const [spotlight] = await db
+    .select({ id: artistSpotlights.id })
+    .from(artistSpotlights)
+    .where(eq(artistSpotlights.artistId, artist.id))
+    .limit(1);
+  if (!spotlight) {
+    console.log(`  ⚠️  ${artist.name} has no spotlight yet; run enrich videos to link the reel`);
+    return published;
   }
+
+  const site = published.find((r) => r.format === SITE_FORMAT) ?? published[0];
+  await db
+    .update(artistSpotlights)
+    .set({
+      videoReelUrl: site.url,
+      videoReelPosterUrl: site.posterUrl,
+      videoReels: published,
+      reelClips: clips.map(({ provider, sourceUrl, title, startSec, endSec }) => ({
+        provider,
+        sourceUrl,
+        title,
+        startSec,
+        endSec,
+      })),
+      reelBuiltAt: builtAt,
+      updatedAt: builtAt,
+    })
+    .where(eq(artistSpotlights.id, spotlight.id));
+  console.log(`  🔗 Linked reels on the spotlight`);
+  return published;
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)}M`
+    : `${Math.round(bytes / 1024)}K`;
 }
 
 /**
- * Generate a reel for an artist
+ * Generate a reel for an artist. Throws, saying why, when there's nothing
+ * to build it from or nothing rendered.
  */
 export async function generateArtistReel(
-  artistName: string,
-  artistSlug: string
-): Promise<{ reelPath: string; clips: ClipInfo[] } | null> {
-  console.log(`\n🎬 Generating reel for ${artistName}...`);
+  artist: ArtistRow
+): Promise<{ reels: PublishedReel[]; clips: ClipInfo[] }> {
+  console.log(`\n🎬 Generating reel for ${artist.name}...`);
 
-  const artistDir = path.join(VIDEOS_DIR, artistSlug);
+  if (!existsSync(REELS_DIR)) mkdirSync(REELS_DIR, { recursive: true });
+  const artistDir = path.join(VIDEOS_DIR, artist.slug);
   if (!existsSync(artistDir)) mkdirSync(artistDir, { recursive: true });
 
-  // 1. Search YouTube
-  const videos = searchYouTube(artistName);
-  if (videos.length === 0) {
-    console.log(`  ❌ No YouTube videos found`);
-    return null;
-  }
+  // 1. Find the artist's sets
+  const videos = await findReelClips(artist.name, artist.metadata);
+  if (videos.length === 0) throw new Error("no relevant videos found");
   console.log(`  📹 Found ${videos.length} videos`);
 
-  // 2. Download clips (30sec from peak moments)
-  const downloadedClips: ClipInfo[] = [];
+  // Offsets found on an earlier run are kept on the spotlight; reuse them
+  const [spotlight] = await db
+    .select({ videoClips: artistSpotlights.videoClips })
+    .from(artistSpotlights)
+    .where(eq(artistSpotlights.artistId, artist.id))
+    .limit(1);
+  const known = new Map(
+    ((spotlight?.videoClips || []) as VideoClip[])
+      .filter((clip) => clip.highlightScore !== undefined)
+      .map((clip) => [clipKey(clip.sourceUrl), clip])
+  );
 
-  for (let i = 0; i < Math.min(videos.length, 3); i++) {
-    const video = videos[i];
-    const clipPath = path.join(artistDir, `clip_${i}.mp4`);
+  // 2. Find each set's highlight and download it, a couple at a time
+  const downloads = await runConcurrently(videos, DOWNLOAD_CONCURRENCY, async (video, i) => {
+    const provider = getProvider(video.provider ?? "youtube")!;
 
-    // Take a segment from ~30% into the video (usually past the intro, into the good stuff)
-    const startSec = Math.floor(video.duration * 0.3);
-    const clipDuration = 20; // 20 seconds per clip
+    // Editors set a pinned clip's offsets themselves
+    let window: { startSec: number; endSec: number; score?: number } = video;
+    if (!video.pinned) {
+      const previous = known.get(clipKey(video.sourceUrl));
+      if (previous) {
+        window = { ...previous, score: previous.highlightScore };
+      } else {
+        console.log(`  🎧 Listening for highlights in "${video.title}"`);
+        window = (await detectHighlight(video, provider)) ?? video;
+      }
+    }
 
     console.log(
-      `  ⬇️  Downloading clip ${i + 1}: "${video.title}" @ ${startSec}s`
+      `  ⬇️  Downloading clip ${i + 1}: "${video.title}" @ ${window.startSec}s`
+    );
+    const clipPath = await cachedDownload(
+      provider,
+      video.sourceUrl,
+      window.startSec,
+      window.endSec - window.startSec
     );
-    const success = downloadClip(video.url, clipPath, startSec, clipDuration);
+    if (!clipPath) return null;
 
-    if (success) {
-      downloadedClips.push({
-        sourceUrl: video.url,
-        title: video.title,
-        startSec,
-        endSec: startSec + clipDuration,
-        localPath: clipPath,
-      });
-    }
-  }
+    return {
+      provider: provider.name,
+      sourceUrl: video.sourceUrl,
+      title: video.title,
+      startSec: window.startSec,
+      endSec: window.endSec,
+      highlightScore: window.score,
+      localPath: clipPath,
+    };
+  });
+  const downloadedClips = downloads.flatMap((d) =>
+    d.status === "fulfilled" && d.value ? [d.value] : []
+  );
+
+  if (downloadedClips.length === 0) throw new Error("no clips could be downloaded");
 
-  if (downloadedClips.length === 0) {
-    console.log(`  ❌ No clips downloaded`);
-    return null;
+  await saveHighlights(artist.id, downloadedClips);
+
+  // 3. Render every format from the same clips
+  const overlay = await reelOverlay(artist);
+  const clipPaths = downloadedClips.map((c) => c.localPath);
+  const reels: ReelOutput[] = [];
+  for (const format of REEL_FORMATS) {
+    const videoPath = path.join(REELS_DIR, `${artist.slug}-reel-${format.name}.mp4`);
+    console.log(`  🎞️  Compiling ${format.aspect} reel from ${downloadedClips.length} clips...`);
+    if (!(await compileReel(clipPaths, videoPath, format, overlay, artistDir))) continue;
+
+    const posterPath = videoPath.replace(/\.mp4$/, ".jpg");
+    const poster = await extractPoster(videoPath, posterPath, posterTime(clipPaths.length));
+    console.log(`  ✅ Reel created: ${videoPath} (${formatSize(statSync(videoPath).size)})`);
+    reels.push({ format: format.aspect, videoPath, posterPath: poster ? posterPath : null });
   }
 
-  // 3. Compile reel
-  const reelPath = path.join(REELS_DIR, `${artistSlug}-reel.mp4`);
-  console.log(`  🎞️  Compiling reel from ${downloadedClips.length} clips...`);
-  const compiled = compileReel(
-    downloadedClips.map((c) => c.localPath),
-    reelPath
-  );
+  if (reels.length === 0) throw new Error("no format rendered");
 
-  if (compiled) {
-    // Get file size
-    const stats = execSync(`ls -lh "${reelPath}"`, { encoding: "utf-8" });
-    console.log(`  ✅ Reel created: ${reelPath}`);
-    console.log(`  📦 ${stats.trim().split(/\s+/)[4]}`);
-    return { reelPath, clips: downloadedClips };
+  // 4. Publish, then drop the overlay files and renders; clips stay cached
+  const published = await publishReels(artist, reels, downloadedClips);
+  rmSync(artistDir, { recursive: true, force: true });
+  for (const reel of reels) {
+    rmSync(reel.videoPath, { force: true });
+    if (reel.posterPath) rmSync(reel.posterPath, { force: true });
   }
 
-  return null;
+  return { reels: published, clips: downloadedClips };
 }
 
-// --- Main: test with first CR artist ---
-async function main() {
-  const result = await generateArtistReel("Zombies In Miami", "zombies-in-miami");
-  if (result) {
-    console.log(`\n🏁 Reel ready!`);
-    console.log(`Clips used:`, result.clips.map((c) => c.title));
+export async function reelBuildCommand(options: CommandOptions): Promise<number> {
+  if (!options.artist) {
+    console.error("reel build needs --artist <slug>");
+    return EXIT_USAGE;
   }
-}
 
-main().catch(console.error);
+  const [artist] = await db.select().from(artists).where(eq(artists.slug, options.artist));
+  if (!artist) {
+    console.error(`No artist with slug ${options.artist}`);
+    return EXIT_FAILED;
+  }
+
+  if (options.dryRun) {
+    const videos = await findReelClips(artist.name, artist.metadata);
+    const overlay = await reelOverlay(artist);
+    console.log(`Would build ${REEL_FORMATS.map((f) => f.aspect).join(", ")} reels for ${artist.name} from:`);
+    videos.forEach((v) => console.log(`  ${v.title} (${v.sourceUrl})`));
+    console.log(`Overlay: ${[overlay.event, overlay.date, overlay.venue].filter(Boolean).join(" · ") || "artist name only"}`);
+    return videos.length > 0 ? EXIT_OK : EXIT_FAILED;
+  }
+
+  pruneDownloadCache();
+  let result;
+  try {
+    result = await generateArtistReel(artist);
+  } catch (err: any) {
+    console.error(`  ❌ ${err.message}`);
+    return EXIT_FAILED;
+  }
+
+  console.log(`\n🏁 ${result.reels.length} reels ready!`);
+  result.reels.forEach((r) => console.log(`  ${r.format}: ${r.url}${r.posterUrl ? ` + ${r.posterUrl}` : ""}`));
+  console.log(`Clips used:`, result.clips.map((c) => c.title));
+  return EXIT_OK;
+}
@@ -0,0 +1,114 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ArtistFacts } from "../src/artist-facts.js";
+import { generateArticle, validateArticle } from "../src/generate-articles.js";
+import { getTextProvider, type TextProvider, type TextRequest } from "../src/text/index.js";
+
+const bobMoses: ArtistFacts = {
+  id: "00000000-0000-0000-0000-000000000001",
+  name: "Bob Moses",
+  slug: "bob-moses",
+  genres: ["deep house", "indie dance"],
+  events: [
+    {
+      name: "Envision Festival 2026",
+      slug: "envision-festival-2026",
+      date: "2026-02-23",
+      venue: "Rancho La Merced",
+      city: "Uvita",
+      headliner: true,
+    },
+    { name: "Kóko Sessions", slug: "koko-sessions", date: null, venue: null, city: null, headliner: false },
+  ],
+  coBilled: ["Polo & Pan", "CloZee"],
+  featuredSets: [],
+  links: [{ label: "Spotify", url: "https://open.spotify.com/artist/6LHsnRBUYhFyt01PdKXAF5" }],
+};
+
+const unknownArtist: ArtistFacts = {
+  id: "00000000-0000-0000-0000-000000000002",
+  name: "Nadie",
+  slug: "nadie",
+  genres: [],
+  events: [],
+  coBilled: [],
+  featuredSets: [],
+  links: [],
+};
+
+describe("article generation through the fake text provider", () => {
+  const fake = getTextProvider("fake");
+
+  it("writes an article that passes the checks from the artist's facts", async () => {
+    const article = await generateArticle(fake, bobMoses);
+
+    assert.deepEqual(validateArticle(article, bobMoses), []);
+    assert.match(article, /^# Bob Moses: Artist Spotlight\n/);
+    assert.match(article, /- \*\*Envision Festival 2026\*\* — 2026-02-23, Rancho La Merced, Uvita/);
+    assert.match(article, /- \*\*Kóko Sessions\*\* — date TBA, venue TBA/);
+    assert.match(article, /shares the lineup with Polo & Pan and CloZee/);
+    assert.match(article, /\[Spotify\]\(https:\/\/open\.spotify\.com\/artist\/6LHsnRBUYhFyt01PdKXAF5\)/);
+  });
+
+  it("writes one for an artist with nothing but a name", async () => {
+    const article = await generateArticle(fake, unknownArtist);
+
+    assert.deepEqual(validateArticle(article, unknownArtist), []);
+    assert.doesNotMatch(article, /## Listen/);
+  });
+
+  it("is the same article every time", async () => {
+    assert.equal(await generateArticle(fake, bobMoses), await generateArticle(fake, bobMoses));
+  });
+});
+
+describe("validateArticle", () => {
+  it("rejects links it wasn't given and a model talking about itself", async () => {
+    const article = await getTextProvider("fake").generate({
+      system: "",
+      prompt: "```json\n" + JSON.stringify(bobMoses) + "\n```",
+    });
+    const problems = validateArticle(
+      `${article}\n\nAs an AI, I recommend [their label](https://example.com/label).`,
+      bobMoses
+    );
+
+    assert.deepEqual(problems, [
+      "it links to https://example.com/label, which isn't among the links given",
+      'it contains "As an AI"',
+    ]);
+  });
+});
+
+describe("generateArticle", () => {
+  /** Answers with each draft in turn, keeping the prompts it was sent. */
+  function drafts(...texts: string[]): TextProvider & { prompts: string[] } {
+    const prompts: string[] = [];
+    return {
+      name: "scripted",
+      prompts,
+      async generate(request: TextRequest) {
+        prompts.push(request.prompt);
+        return texts[prompts.length - 1];
+      },
+    };
+  }
+
+  it("retries a rejected draft with the problems spelled out", async () => {
+    const good = await getTextProvider("fake").generate({
+      system: "",
+      prompt: "```json\n" + JSON.stringify(bobMoses) + "\n```",
+    });
+    const provider = drafts("# Bob Moses\n\nToo short.", "```markdown\n" + good + "\n```");
+
+    assert.equal(await generateArticle(provider, bobMoses), good);
+    assert.equal(provider.prompts.length, 2);
+    assert.match(provider.prompts[1], /Your previous draft was rejected because:\n- it has 0 "## " sections/);
+  });
+
+  it("gives up after the second rejected draft", async () => {
+    const provider = drafts("Lorem ipsum", "Lorem ipsum");
+
+    await assert.rejects(generateArticle(provider, bobMoses), /no valid article after 2 drafts/);
+  });
+});
@@ -0,0 +1,56 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { selectClips } from "../src/clip-relevance.js";
+import { clipKey, searchMedia, toClip, type VideoClip } from "../src/media/index.js";
+
+describe("clip selection through the fake media provider", () => {
+  let candidates: VideoClip[];
+
+  before(async () => {
+    process.env.MEDIA_PROVIDERS = "fake";
+    candidates = (await searchMedia("Bob Moses")).map((result) => toClip(result));
+  });
+
+  after(() => {
+    delete process.env.MEDIA_PROVIDERS;
+  });
+
+  it("keeps the artist's sets and rejects the upload that isn't theirs", () => {
+    const { clips, rejected } = selectClips("Bob Moses", candidates, { pinned: [], blocked: [] });
+
+    assert.deepEqual(
+      clips.map((c) => c.title),
+      ["Bob Moses live at Envision Festival", "Bob Moses | Boiler Room DJ set"]
+    );
+    assert.ok(clips.every((c) => c.provider === "fake" && c.startSec < c.endSec));
+    assert.deepEqual(
+      rejected.map((r) => [r.clip.title, r.reason]),
+      [["Top 10 beaches in Costa Rica", "score 0.00"]]
+    );
+  });
+
+  it("puts pins first and never brings back a blocked clip", () => {
+    const boilerRoom = candidates.find((c) => c.title.includes("Boiler Room"))!;
+    const pin: VideoClip = {
+      provider: "youtube",
+      sourceUrl: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+      title: "Bob Moses — Cercle",
+      startSec: 600,
+      endSec: 660,
+    };
+
+    const { clips, rejected } = selectClips("Bob Moses", candidates, {
+      pinned: [pin],
+      blocked: [clipKey(boilerRoom.sourceUrl)!],
+    });
+
+    assert.deepEqual(
+      clips.map((c) => [c.title, Boolean(c.pinned)]),
+      [
+        ["Bob Moses — Cercle", true],
+        ["Bob Moses live at Envision Festival", false],
+      ]
+    );
+    assert.ok(rejected.some((r) => r.clip.sourceUrl === boilerRoom.sourceUrl && r.reason === "blocked"));
+  });
+});
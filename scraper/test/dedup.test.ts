@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { bestDuplicate, type ExistingFestival } from "../src/dedup.js";
+
+const sunsetSession: ExistingFestival = {
+  id: "00000000-0000-0000-0000-000000000001",
+  title: "Sunset Session",
+  startDate: "2026-03-14",
+  endDate: null,
+  venueName: null,
+  artistNames: [],
+  metadata: { source: "ra", raId: "2301001" },
+};
+
+describe("bestDuplicate", () => {
+  it("keeps apart two listings from the same source with the same title", () => {
+    const other = {
+      title: "Sunset Session",
+      startDate: "2026-03-14",
+      endDate: null,
+      venueName: "Playa Grande Beach Club",
+      artistNames: [],
+      source: "ra",
+      externalId: "2301002",
+    };
+
+    assert.equal(bestDuplicate(other, [sunsetSession]), null);
+  });
+
+  it("still merges the same event listed by another source", () => {
+    const fromDice = {
+      title: "Sunset Session",
+      startDate: "2026-03-14",
+      endDate: null,
+      venueName: "Playa Grande Beach Club",
+      artistNames: [],
+      source: "dice",
+      externalId: "dice-88",
+    };
+
+    const match = bestDuplicate(fromDice, [sunsetSession]);
+    assert.equal(match?.festivalId, sunsetSession.id);
+    assert.equal(match?.decision, "merge");
+  });
+
+  it("matches a row that already holds the event's own id", () => {
+    const again = { ...sunsetSession, source: "ra", externalId: "2301001" };
+
+    assert.equal(bestDuplicate(again, [sunsetSession])?.festivalId, sunsetSession.id);
+  });
+});
@@ -0,0 +1,113 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { diceAdapter, parseDiceResponse, type DiceResponse } from "../src/sources/dice.js";
+import { fixture, fixtureText, respondWith, source } from "./helpers.js";
+
+describe("parseDiceResponse", () => {
+  const events = parseDiceResponse(fixture<DiceResponse>("dice-events.json"));
+
+  it("drops events without a name or a date", () => {
+    assert.deepEqual(
+      events.map((e) => e.title),
+      ["Envision Festival 2026", "Jungle Warehouse: Open Air", "Secret Beach Party"]
+    );
+  });
+
+  it("normalizes a festival with detailed artists", () => {
+    assert.deepEqual(events[0], {
+      source: "dice",
+      externalId: "6a1f0c2e9b7d3e0012ab34cd",
+      title: "Envision Festival 2026",
+      startDate: "2026-02-23",
+      endDate: "2026-03-01", // the last night ends at 04:00 on the 2nd
+      startTime: "10:00",
+      endTime: "04:00",
+      websiteUrl: null,
+      ticketUrl: "https://link.dice.fm/envision-festival-2026",
+      imageUrl: "https://dice-media.imgix.net/attachments/envision-landscape.jpg",
+      venue: {
+        externalId: null,
+        name: "Rancho La Merced",
+        city: "Uvita",
+        country: "Costa Rica",
+        address: "Costanera Sur, Uvita",
+        latitude: 9.1498,
+        longitude: -83.7401,
+      },
+      artists: [
+        { externalId: "18823", name: "Tipper", url: null },
+        { externalId: "bm-5531", name: "Bob Moses", url: null },
+      ],
+      cancelled: false,
+      metadata: {
+        diceId: "6a1f0c2e9b7d3e0012ab34cd",
+        genres: ["Bass", "Melodic House & Techno"],
+      },
+    });
+  });
+
+  it("falls back to plain artist names and the square image", () => {
+    const night = events[1];
+    assert.equal(night.startDate, "2026-03-27");
+    assert.equal(night.startTime, "21:00");
+    assert.equal(night.endDate, "2026-03-27");
+    assert.equal(night.imageUrl, "https://dice-media.imgix.net/attachments/jungle-square.jpg");
+    assert.equal(night.venue?.address, null);
+    assert.deepEqual(night.artists, [
+      { externalId: null, name: "Amelie Lens", url: null },
+      { externalId: null, name: "Dax J", url: null },
+    ]);
+  });
+
+  it("copes with missing fields on a cancelled event", () => {
+    const cancelled = events[2];
+    assert.equal(cancelled.cancelled, true);
+    assert.equal(cancelled.venue, null);
+    assert.equal(cancelled.startDate, "2026-04-04");
+    assert.equal(cancelled.endDate, "2026-04-04");
+    assert.equal(cancelled.ticketUrl, null);
+    assert.equal(cancelled.imageUrl, null);
+    assert.deepEqual(cancelled.artists, []);
+    assert.deepEqual(cancelled.metadata.genres, []);
+  });
+});
+
+describe("diceAdapter", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("keeps the pages it got when a later page breaks off", async () => {
+    const firstPage = {
+      ...fixture<DiceResponse>("dice-events.json"),
+      links: { next: "https://partners-endpoint.dice.fm/api/v2/events?page[number]=2" },
+    };
+    const api = respondWith(JSON.stringify(firstPage), "<html>Bad Gateway</html>");
+    mock.method(globalThis, "fetch", api.fetch);
+    process.env.DICE_API_KEY = "test-key";
+
+    const result = await diceAdapter.fetchEvents(source("dice", { venues: ["Vértigo"] }));
+
+    assert.equal(result.events.length, 3);
+    assert.equal(result.errors.length, 1);
+    assert.equal(result.errors[0].entity, "page after 3 events");
+    assert.match(api.urls[0], /filter%5Bvenues%5D%5B%5D=V%C3%A9rtigo/);
+    assert.equal(api.urls[1], firstPage.links.next);
+  });
+
+  it("fails the run when the first page can't be read", async () => {
+    mock.method(globalThis, "fetch", respondWith("not json").fetch);
+    process.env.DICE_API_KEY = "test-key";
+
+    await assert.rejects(diceAdapter.fetchEvents(source("dice", {})), /DICE API error/);
+  });
+
+  it("applies --from/--to itself", async () => {
+    mock.method(globalThis, "fetch", respondWith(fixtureText("dice-events.json")).fetch);
+    process.env.DICE_API_KEY = "test-key";
+
+    const result = await diceAdapter.fetchEvents(source("dice", {}), { from: "2026-03-01" });
+    assert.deepEqual(
+      result.events.map((e) => e.title),
+      ["Jungle Warehouse: Open Air", "Secret Beach Party"]
+    );
+  });
+});
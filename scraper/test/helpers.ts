@@ -0,0 +1,35 @@
+/**
+ * Shared bits for the scraper tests
+ * Saved API responses live in test/fixtures/; `respondWith` stands in for
+ * the network so adapters can be run end to end without it.
+ */
+import { readFileSync } from "fs";
+import path from "path";
+import type { ScrapeSource } from "../src/sources/types.js";
+
+export function fixtureText(name: string): string {
+  return readFileSync(path.join(__dirname, "fixtures", name), "utf-8");
+}
+
+export function fixture<T>(name: string): T {
+  return JSON.parse(fixtureText(name)) as T;
+}
+
+export function source(type: string, config: Record<string, unknown>): ScrapeSource {
+  return { id: "00000000-0000-0000-0000-000000000000", name: `Test ${type}`, type, config } as ScrapeSource;
+}
+
+/**
+ * A fetch that answers each call with the next body in turn, for
+ * `mock.method(globalThis, "fetch", ...)`. Asked-for URLs are kept in `urls`.
+ */
+export function respondWith(...bodies: string[]) {
+  const urls: string[] = [];
+  const fetch = async (input: string | URL | Request) => {
+    urls.push(String(input));
+    const body = bodies.shift();
+    if (body === undefined) throw new Error(`Unexpected request: ${input}`);
+    return new Response(body, { status: 200, headers: { "content-type": "application/json" } });
+  };
+  return { fetch, urls };
+}
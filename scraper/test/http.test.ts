@@ -0,0 +1,77 @@
+import { after, afterEach, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { diceAdapter } from "../src/sources/dice.js";
+import { raAdapter } from "../src/sources/ra.js";
+import type { SourceAdapter } from "../src/sources/types.js";
+import { fixtureText, respondWith, source } from "./helpers.js";
+
+const RECORDED_ON = new Date("2026-02-01T09:30:00Z");
+const REPLAYED_ON = new Date("2026-02-09T18:05:00Z");
+
+/** Records a fetch on one day, then replays the same fetch a week later. */
+async function recordThenReplay(
+  adapter: SourceAdapter,
+  config: Record<string, unknown>,
+  body: string
+) {
+  mock.timers.enable({ apis: ["Date"], now: RECORDED_ON });
+  process.env.HTTP_MODE = "record";
+  mock.method(globalThis, "fetch", respondWith(body).fetch);
+  const recorded = await adapter.fetchEvents(source(adapter.type, config));
+
+  mock.restoreAll();
+  mock.timers.reset();
+  mock.timers.enable({ apis: ["Date"], now: REPLAYED_ON });
+  process.env.HTTP_MODE = "replay";
+  mock.method(globalThis, "fetch", respondWith().fetch); // any request fails the test
+  const replayed = await adapter.fetchEvents(source(adapter.type, config));
+
+  return { recorded, replayed };
+}
+
+describe("recordings", () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), "recordings-"));
+    process.env.HTTP_RECORDINGS_DIR = dir;
+    process.env.DICE_API_KEY = "test-key";
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    mock.timers.reset();
+    delete process.env.HTTP_MODE;
+  });
+
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("replays a DICE fetch on a later day", async () => {
+    const { recorded, replayed } = await recordThenReplay(
+      diceAdapter,
+      {},
+      fixtureText("dice-events.json")
+    );
+    assert.equal(recorded.events.length, 3);
+    assert.deepEqual(replayed, recorded);
+  });
+
+  it("replays an RA fetch on a later day", async () => {
+    const { recorded, replayed } = await recordThenReplay(
+      raAdapter,
+      { areaId: 26 },
+      fixtureText("ra-event-listings.json")
+    );
+    assert.equal(recorded.events.length, 2);
+    assert.deepEqual(replayed, recorded);
+  });
+
+  it("still tells apart requests that differ by more than dates", async () => {
+    await recordThenReplay(diceAdapter, { venues: ["Vértigo"] }, fixtureText("dice-events.json"));
+
+    await assert.rejects(diceAdapter.fetchEvents(source("dice", { venues: ["Kóko"] })), /No recording/);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ProcessError, runProcess } from "../src/process.js";
+
+// Writes a line in two chunks, the second starting halfway through "é"
+const SPLIT_WRITE = `
+  const bytes = Buffer.from("Café del Mar — Sesión en vivo\\n");
+  process.stdout.write(bytes.subarray(0, 4));
+  setTimeout(() => process.stdout.write(bytes.subarray(4)), 50);
+`;
+
+describe("runProcess", () => {
+  it("keeps characters whole when they're split across chunks", async () => {
+    const lines: string[] = [];
+    const result = await runProcess(process.execPath, ["-e", SPLIT_WRITE], {
+      onLine: (line) => lines.push(line),
+    });
+
+    assert.equal(result.stdout, "Café del Mar — Sesión en vivo\n");
+    assert.deepEqual(lines, ["Café del Mar — Sesión en vivo"]);
+  });
+
+  it("rejects with the last line of stderr on a non-zero exit", async () => {
+    const script = `console.error("Descargando…"); console.error("ERROR: vídeo no disponible"); process.exit(3)`;
+    await assert.rejects(runProcess(process.execPath, ["-e", script]), (err: ProcessError) => {
+      assert.equal(err.reason, "exit");
+      assert.equal(err.exitCode, 3);
+      assert.match(err.message, /ERROR: vídeo no disponible$/);
+      return true;
+    });
+  });
+});
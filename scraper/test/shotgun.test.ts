@@ -0,0 +1,103 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { parseShotgunResponse, shotgunAdapter, type ShotgunResponse } from "../src/sources/shotgun.js";
+import { fixture, fixtureText, respondWith, source } from "./helpers.js";
+
+describe("parseShotgunResponse", () => {
+  const events = parseShotgunResponse(fixture<ShotgunResponse>("shotgun-events.json"));
+
+  it("drops events without a name or a start time", () => {
+    assert.deepEqual(
+      events.map((e) => e.externalId),
+      ["412345", "412400", "412511"]
+    );
+  });
+
+  it("normalizes a full event in its own timezone", () => {
+    assert.deepEqual(events[0], {
+      source: "shotgun",
+      externalId: "412345",
+      title: "Ritual Selva: Full Moon Gathering",
+      startDate: "2026-03-13",
+      endDate: "2026-03-13", // ends at 04:00, still the same night
+      startTime: "20:00",
+      endTime: "04:00",
+      websiteUrl: "https://shotgun.live/events/ritual-selva-full-moon",
+      ticketUrl: "https://shotgun.live/events/ritual-selva-full-moon",
+      imageUrl: "https://res.cloudinary.com/shotgun/image/upload/ritual-selva.jpg",
+      venue: {
+        externalId: null,
+        name: "Playa Grande Beach Club",
+        city: "Tamarindo",
+        country: "Costa Rica",
+        address: "Playa Grande, 50309",
+        latitude: 10.3339,
+        longitude: -85.8551,
+      },
+      artists: [
+        { externalId: "90211", name: "Bedouin", url: null },
+        { externalId: "90876", name: "Sabo", url: null },
+      ],
+      cancelled: false,
+      metadata: { shotgunId: "412345", genres: ["Organic House", "Downtempo"] },
+    });
+  });
+
+  it("spans a multi-day festival and reads wall-clock times without a timezone", () => {
+    const festival = events[1];
+    assert.equal(festival.startDate, "2026-04-10");
+    assert.equal(festival.endDate, "2026-04-12");
+    assert.equal(festival.startTime, "14:00");
+    assert.equal(festival.venue?.address, null);
+    assert.equal(festival.venue?.latitude, null);
+    assert.deepEqual(festival.metadata.genres, []);
+  });
+
+  it("copes with missing fields on a cancelled event", () => {
+    const cancelled = events[2];
+    assert.equal(cancelled.cancelled, true);
+    assert.equal(cancelled.venue, null);
+    assert.equal(cancelled.endDate, cancelled.startDate);
+    assert.equal(cancelled.endTime, null);
+    assert.equal(cancelled.websiteUrl, null);
+    assert.equal(cancelled.imageUrl, null);
+    assert.deepEqual(cancelled.artists, []);
+  });
+
+  it("treats a response without data as empty", () => {
+    assert.deepEqual(parseShotgunResponse({} as ShotgunResponse), []);
+  });
+});
+
+describe("shotgunAdapter", () => {
+  afterEach(() => mock.restoreAll());
+
+  it("keeps the pages it got when a later page breaks off", async () => {
+    const firstPage = { ...fixture<ShotgunResponse>("shotgun-events.json"), pagination: { after: "cursor-2" } };
+    const api = respondWith(JSON.stringify(firstPage), fixtureText("shotgun-events.json").slice(0, 200));
+    mock.method(globalThis, "fetch", api.fetch);
+    process.env.SHOTGUN_API_TOKEN = "test-token";
+
+    const result = await shotgunAdapter.fetchEvents(source("shotgun", { organizerId: 1234 }));
+
+    assert.equal(result.events.length, 3);
+    assert.equal(result.errors.length, 1);
+    assert.equal(result.errors[0].stage, "fetch");
+    assert.equal(result.errors[0].entity, "page after 3 events");
+    assert.match(api.urls[1], /after=cursor-2/);
+  });
+
+  it("applies the date range itself", async () => {
+    mock.method(globalThis, "fetch", respondWith(fixtureText("shotgun-events.json")).fetch);
+    process.env.SHOTGUN_API_TOKEN = "test-token";
+
+    const result = await shotgunAdapter.fetchEvents(source("shotgun", { organizerId: 1234 }), {
+      from: "2026-03-01",
+      to: "2026-03-31",
+    });
+    assert.deepEqual(
+      result.events.map((e) => e.externalId),
+      ["412345"]
+    );
+  });
+});
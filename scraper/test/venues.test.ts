@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { RAEventListing } from "../src/ra-client.js";
+import { parseDiceResponse, type DiceResponse } from "../src/sources/dice.js";
+import { normalizeRAListing } from "../src/sources/ra.js";
+import { parseShotgunResponse, type ShotgunResponse } from "../src/sources/shotgun.js";
+import { venueIdsConflict, venueMatchScore, venueNameSimilarity } from "../src/venues.js";
+import { fixture } from "./helpers.js";
+
+describe("venueNameSimilarity", () => {
+  it("ignores accents, case and articles", () => {
+    assert.equal(venueNameSimilarity("Û Kóko Club", "u koko club"), 1);
+    assert.equal(venueNameSimilarity("The Lab", "Lab"), 1);
+  });
+
+  it("lets a name leave off the kind of venue", () => {
+    assert.equal(venueNameSimilarity("Û Kóko Club", "U Koko"), 0.85);
+    assert.equal(venueNameSimilarity("Playa Grande Beach", "Playa Grande Beach Club"), 0.85);
+  });
+
+  it("tells apart a club and a bar of the same name", () => {
+    assert.ok(venueNameSimilarity("Kóko Bar", "Kóko Club") < 0.75);
+  });
+
+  it("doesn't match a name inside a longer one", () => {
+    assert.ok(venueNameSimilarity("Kóko", "Kóko Club Rooftop") < 0.75);
+  });
+});
+
+describe("venueMatchScore", () => {
+  const koko = { name: "Û Kóko Club", city: "San José" };
+
+  it("needs the same city for a fuzzy match", () => {
+    assert.equal(venueMatchScore({ name: "U Koko", city: "San Jose" }, koko), 0.85);
+    assert.equal(venueMatchScore({ name: "U Koko", city: "Tamarindo" }, koko), null);
+    assert.equal(venueMatchScore({ name: "U Koko", city: null }, koko), null);
+  });
+
+  it("takes the exact name when a city is missing", () => {
+    assert.equal(venueMatchScore({ name: "Vértigo", city: null }, { name: "Vertigo", city: "San José" }), 1);
+  });
+});
+
+describe("venueIdsConflict", () => {
+  const ids = (source: string, ...values: string[]) => new Map([[source, new Set(values)]]);
+
+  it("keeps apart venues a source has under different ids", () => {
+    assert.equal(venueIdsConflict(ids("ra", "101"), ids("ra", "202")), true);
+  });
+
+  it("allows a shared id, another source or no ids at all", () => {
+    assert.equal(venueIdsConflict(ids("ra", "101", "202"), ids("ra", "202")), false);
+    assert.equal(venueIdsConflict(ids("ra", "101"), ids("dice", "202")), false);
+    assert.equal(venueIdsConflict(undefined, ids("ra", "202")), false);
+  });
+});
+
+describe("venues across sources", () => {
+  const ra = fixture<{ data: { eventListings: { data: RAEventListing[] } } }>("ra-event-listings.json")
+    .data.eventListings.data.map((listing) => normalizeRAListing(listing).venue!);
+  const venueNamed = (venues: ({ name: string; city: string | null } | null)[], name: string) =>
+    venues.find((v) => v?.name === name)!;
+
+  it("takes an RA venue's town from its address, not the country-wide area", () => {
+    assert.equal(venueNamed(ra, "Vértigo").city, "San José");
+    assert.equal(venueNamed(ra, "Playa Grande Beach Club").city, null);
+  });
+
+  it("matches RA venues to the same ones from DICE and Shotgun", () => {
+    const dice = parseDiceResponse(fixture<DiceResponse>("dice-events.json")).map((e) => e.venue);
+    const shotgun = parseShotgunResponse(fixture<ShotgunResponse>("shotgun-events.json")).map((e) => e.venue);
+
+    assert.equal(venueMatchScore(venueNamed(ra, "Vértigo"), venueNamed(dice, "Vértigo")), 1);
+    assert.equal(
+      venueMatchScore(venueNamed(ra, "Playa Grande Beach Club"), venueNamed(shotgun, "Playa Grande Beach Club")),
+      1
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import { db } from "@/db";
+import { scrapeLogs, scrapeSources } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { format } from "date-fns";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { Metadata } from "next";
+import { formatDuration, RUN_STATUS_STYLES, toScrapeErrors } from "@/lib/scrapes";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Scrape Run | Festival Pulse",
+  robots: { index: false },
+};
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+async function getRun(id: string) {
+  if (!UUID.test(id)) return null;
+
+  const results = await db
+    .select({
+      log: scrapeLogs,
+      sourceName: scrapeSources.name,
+      sourceType: scrapeSources.type,
+      sourceUrl: scrapeSources.url,
+    })
+    .from(scrapeLogs)
+    .leftJoin(scrapeSources, eq(scrapeLogs.sourceId, scrapeSources.id))
+    .where(eq(scrapeLogs.id, id))
+    .limit(1);
+
+  return results[0] || null;
+}
+
+export default async function ScrapeRunPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const run = await getRun(id);
+  if (!run) notFound();
+
+  const { log } = run;
+  const errors = toScrapeErrors(log.errors);
+  const errorCount = log.errorCount ?? errors.length;
+
+  const byStage = new Map<string, typeof errors>();
+  for (const error of errors) {
+    byStage.set(error.stage, [...(byStage.get(error.stage) || []), error]);
+  }
+
+  const stats = [
+    { label: "Seen", value: log.festivalsFound ?? 0 },
+    { label: "New", value: log.eventsCreated ?? 0 },
+    { label: "Updated", value: log.eventsUpdated ?? 0 },
+    { label: "Artist slots", value: log.artistsFound ?? 0 },
+    { label: "Errors", value: errorCount },
+    { label: "Duration", value: formatDuration(log.duration) },
+  ];
+
+  return (
+    <div>
+      <Link href="/admin/scrapes" className="text-sm text-zinc-500 hover:text-white transition">
+        ← All runs
+      </Link>
+
+      <div className="mt-4 mb-10">
+        <div className="flex items-center gap-3 mb-2">
+          <h1 className="text-4xl font-bold">{run.sourceName || log.job || "Unknown source"}</h1>
+          <span
+            className={`text-xs px-2 py-0.5 rounded-full border ${RUN_STATUS_STYLES[log.status] || "border-zinc-700 text-zinc-400"}`}
+          >
+            {log.status}
+          </span>
+        </div>
+        <p className="text-zinc-500">
+          {format(log.scrapedAt, "EEEE, MMMM d, yyyy 'at' HH:mm")}
+          {log.job && ` · ${log.job}`}
+          {run.sourceType && ` · ${run.sourceType}`}
+        </p>
+        {run.sourceUrl && (
+          <a
+            href={run.sourceUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-purple-400 hover:underline"
+          >
+            {run.sourceUrl}
+          </a>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-12">
+        {stats.map((stat) => (
+          <div key={stat.label} className="border border-zinc-800 rounded-xl p-4">
+            <div className="text-xs text-zinc-500 mb-1">{stat.label}</div>
+            <div className="text-2xl font-bold">{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <section>
+        <h2 className="text-2xl font-bold mb-6">⚠️ Errors</h2>
+        {errors.length === 0 ? (
+          <p className="text-zinc-500">No errors in this run.</p>
+        ) : (
+          <div className="space-y-8">
+            {errorCount > errors.length && (
+              <p className="text-sm text-zinc-500">
+                Showing the first {errors.length} of {errorCount} errors.
+              </p>
+            )}
+            {[...byStage.entries()].map(([stage, stageErrors]) => (
+              <div key={stage}>
+                <h3 className="font-semibold mb-3 capitalize">
+                  {stage} <span className="text-zinc-500 font-normal">({stageErrors.length})</span>
+                </h3>
+                <div className="border border-zinc-800 rounded-xl divide-y divide-zinc-900">
+                  {stageErrors.map((error, i) => (
+                    <div key={i} className="px-4 py-3 text-sm">
+                      <div className="flex gap-2 text-zinc-500 mb-1">
+                        <span className="uppercase text-xs">{error.source}</span>
+                        {error.entity && <span className="text-zinc-300">{error.entity}</span>}
+                      </div>
+                      <code className="text-red-300 break-words">{error.message}</code>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { db } from "@/db";
+import { scrapeLogs, scrapeSources } from "@/db/schema";
+import { desc, eq, gte } from "drizzle-orm";
+import { format, formatDistanceToNow, subDays } from "date-fns";
+import Link from "next/link";
+import type { Metadata } from "next";
+import { formatDuration, RUN_STATUS_DOTS, RUN_STATUS_STYLES } from "@/lib/scrapes";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Scrape Runs | Festival Pulse",
+  robots: { index: false },
+};
+
+const TREND_RUNS = 20;
+const WINDOW_DAYS = 30;
+
+async function getRuns() {
+  return db
+    .select({
+      id: scrapeLogs.id,
+      sourceId: scrapeLogs.sourceId,
+      job: scrapeLogs.job,
+      status: scrapeLogs.status,
+      festivalsFound: scrapeLogs.festivalsFound,
+      eventsCreated: scrapeLogs.eventsCreated,
+      eventsUpdated: scrapeLogs.eventsUpdated,
+      errorCount: scrapeLogs.errorCount,
+      duration: scrapeLogs.duration,
+      scrapedAt: scrapeLogs.scrapedAt,
+      sourceName: scrapeSources.name,
+      sourceType: scrapeSources.type,
+    })
+    .from(scrapeLogs)
+    .leftJoin(scrapeSources, eq(scrapeLogs.sourceId, scrapeSources.id))
+    .where(gte(scrapeLogs.scrapedAt, subDays(new Date(), WINDOW_DAYS)))
+    .orderBy(desc(scrapeLogs.scrapedAt));
+}
+
+type Run = Awaited<ReturnType<typeof getRuns>>[number];
+
+function runLabel(run: Run) {
+  return run.sourceName || run.job || "Unknown source";
+}
+
+// Runs come in newest first; a source's trend reads oldest → newest
+function summarizeSources(runs: Run[]) {
+  const bySource = new Map<string, Run[]>();
+  for (const run of runs) {
+    const key = run.sourceId || run.job || "unknown";
+    bySource.set(key, [...(bySource.get(key) || []), run]);
+  }
+
+  const weekAgo = subDays(new Date(), 7);
+  return [...bySource.entries()].map(([key, sourceRuns]) => {
+    const lastWeek = sourceRuns.filter((r) => r.scrapedAt >= weekAgo);
+    const failureRate = (list: Run[]) =>
+      list.length > 0
+        ? Math.round((list.filter((r) => r.status === "error").length / list.length) * 100)
+        : null;
+    const durations = sourceRuns.map((r) => r.duration).filter((d): d is number => d !== null);
+
+    return {
+      key,
+      label: runLabel(sourceRuns[0]),
+      type: sourceRuns[0].sourceType,
+      runs: sourceRuns.length,
+      failureRate30d: failureRate(sourceRuns),
+      failureRate7d: failureRate(lastWeek),
+      avgDuration:
+        durations.length > 0
+          ? Math.round(durations.reduce((a, b) => a + b, 0) / durations.length)
+          : null,
+      lastSuccess: sourceRuns.find((r) => r.status === "success")?.scrapedAt || null,
+      trend: sourceRuns.slice(0, TREND_RUNS).reverse(),
+    };
+  });
+}
+
+export default async function ScrapeRunsPage() {
+  const runs = await getRuns();
+  const sources = summarizeSources(runs);
+
+  return (
+    <div>
+      <div className="mb-10">
+        <h1 className="text-4xl font-bold mb-2">Scrape Runs</h1>
+        <p className="text-zinc-500">
+          {runs.length} runs in the last {WINDOW_DAYS} days
+        </p>
+      </div>
+
+      <section className="mb-12">
+        <h2 className="text-2xl font-bold mb-6">📡 Sources</h2>
+        {sources.length === 0 ? (
+          <p className="text-zinc-500">No scrape runs logged yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {sources.map((source) => (
+              <div key={source.key} className="border border-zinc-800 rounded-xl p-5">
+                <div className="flex items-start justify-between gap-4 mb-3">
+                  <div>
+                    <h3 className="font-semibold text-lg">{source.label}</h3>
+                    {source.type && (
+                      <span className="text-xs text-zinc-500 uppercase">{source.type}</span>
+                    )}
+                  </div>
+                  <div className="flex gap-1" title={`Last ${source.trend.length} runs`}>
+                    {source.trend.map((run) => (
+                      <Link
+                        key={run.id}
+                        href={`/admin/scrapes/${run.id}`}
+                        className={`w-2 h-6 rounded-sm ${RUN_STATUS_DOTS[run.status] || "bg-zinc-600"}`}
+                        title={`${run.status} · ${format(run.scrapedAt, "MMM d, HH:mm")}`}
+                      />
+                    ))}
+                  </div>
+                </div>
+                <dl className="grid grid-cols-2 gap-2 text-sm">
+                  <dt className="text-zinc-500">Failures (7d / 30d)</dt>
+                  <dd>
+                    {source.failureRate7d ?? "—"}% / {source.failureRate30d ?? "—"}%
+                  </dd>
+                  <dt className="text-zinc-500">Avg duration</dt>
+                  <dd>{formatDuration(source.avgDuration)}</dd>
+                  <dt className="text-zinc-500">Last success</dt>
+                  <dd>
+                    {source.lastSuccess
+                      ? formatDistanceToNow(source.lastSuccess, { addSuffix: true })
+                      : "never"}
+                  </dd>
+                </dl>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section>
+        <h2 className="text-2xl font-bold mb-6">🧾 Runs</h2>
+        <div className="overflow-x-auto border border-zinc-800 rounded-xl">
+          <table className="w-full text-sm">
+            <thead className="text-left text-zinc-500 border-b border-zinc-800">
+              <tr>
+                <th className="px-4 py-3 font-medium">When</th>
+                <th className="px-4 py-3 font-medium">Source</th>
+                <th className="px-4 py-3 font-medium">Status</th>
+                <th className="px-4 py-3 font-medium text-right">Seen</th>
+                <th className="px-4 py-3 font-medium text-right">New</th>
+                <th className="px-4 py-3 font-medium text-right">Updated</th>
+                <th className="px-4 py-3 font-medium text-right">Errors</th>
+                <th className="px-4 py-3 font-medium text-right">Duration</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((run) => (
+                <tr key={run.id} className="border-b border-zinc-900 hover:bg-zinc-900/50">
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <Link href={`/admin/scrapes/${run.id}`} className="hover:text-purple-400">
+                      {format(run.scrapedAt, "MMM d, HH:mm")}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3">
+                    {runLabel(run)}
+                    {run.job && run.job !== "sync" && (
+                      <span className="text-zinc-600 ml-2">{run.job}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={`text-xs px-2 py-0.5 rounded-full border ${RUN_STATUS_STYLES[run.status] || "border-zinc-700 text-zinc-400"}`}
+                    >
+                      {run.status}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-right">{run.festivalsFound ?? 0}</td>
+                  <td className="px-4 py-3 text-right">{run.eventsCreated ?? 0}</td>
+                  <td className="px-4 py-3 text-right">{run.eventsUpdated ?? 0}</td>
+                  <td className="px-4 py-3 text-right">{run.errorCount ?? 0}</td>
+                  <td className="px-4 py-3 text-right">{formatDuration(run.duration)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import { db } from "@/db";
+import { artists, artistSpotlights, spotlightRevisions } from "@/db/schema";
+import { and, desc, eq, lt } from "drizzle-orm";
+import { format } from "date-fns";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import type { Metadata } from "next";
+import { diffLines, type DiffLine } from "@/lib/diff";
+import {
+  formatScheduleTime,
+  REVISION_STATUS_STYLES,
+  SCHEDULE_GRANULARITY_MINUTES,
+  SCHEDULE_TIMEZONE,
+} from "@/lib/spotlights";
+import { approveRevision, editRevision, rejectRevision } from "../actions";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Spotlight Revision | Festival Pulse",
+  robots: { index: false },
+};
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const DIFF_STYLES: Record<DiffLine["type"], string> = {
+  same: "text-zinc-400",
+  added: "bg-green-500/10 text-green-300",
+  removed: "bg-red-500/10 text-red-300 line-through",
+};
+const DIFF_MARKS: Record<DiffLine["type"], string> = { same: " ", added: "+", removed: "-" };
+
+async function getRevision(id: string) {
+  if (!UUID.test(id)) return null;
+
+  const results = await db
+    .select({ revision: spotlightRevisions, spotlight: artistSpotlights, artist: artists })
+    .from(spotlightRevisions)
+    .innerJoin(artistSpotlights, eq(spotlightRevisions.spotlightId, artistSpotlights.id))
+    .innerJoin(artists, eq(artistSpotlights.artistId, artists.id))
+    .where(eq(spotlightRevisions.id, id))
+    .limit(1);
+
+  return results[0] || null;
+}
+
+// What readers saw before this revision: the last approved one, else the live article
+async function getBaseline(
+  revision: typeof spotlightRevisions.$inferSelect,
+  spotlight: typeof artistSpotlights.$inferSelect
+) {
+  const [previous] = await db
+    .select({ content: spotlightRevisions.content })
+    .from(spotlightRevisions)
+    .where(
+      and(
+        eq(spotlightRevisions.spotlightId, revision.spotlightId),
+        eq(spotlightRevisions.status, "approved"),
+        lt(spotlightRevisions.createdAt, revision.createdAt)
+      )
+    )
+    .orderBy(desc(spotlightRevisions.createdAt))
+    .limit(1);
+  if (previous) return previous.content;
+  return spotlight.status === "published" ? spotlight.content : "";
+}
+
+export default async function SpotlightRevisionPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const result = await getRevision(id);
+  if (!result) notFound();
+
+  const { revision, spotlight, artist } = result;
+  const [baseline, history] = await Promise.all([
+    getBaseline(revision, spotlight),
+    db
+      .select()
+      .from(spotlightRevisions)
+      .where(eq(spotlightRevisions.spotlightId, revision.spotlightId))
+      .orderBy(desc(spotlightRevisions.createdAt)),
+  ]);
+  const diff = diffLines(baseline, revision.content);
+  const pending = revision.status === "pending";
+
+  return (
+    <div>
+      <Link href="/admin/spotlights" className="text-sm text-zinc-500 hover:text-white transition">
+        ← All drafts
+      </Link>
+
+      <div className="mt-4 mb-10">
+        <div className="flex items-center gap-3 mb-2">
+          <h1 className="text-4xl font-bold">{artist.name}</h1>
+          <span
+            className={`text-xs px-2 py-0.5 rounded-full border ${REVISION_STATUS_STYLES[revision.status] || "border-zinc-700 text-zinc-400"}`}
+          >
+            {revision.status}
+          </span>
+        </div>
+        <p className="text-zinc-500">
+          {revision.title} · {revision.source} · written{" "}
+          {format(revision.createdAt, "MMM d, yyyy 'at' HH:mm")}
+        </p>
+        {spotlight.status === "published" && spotlight.publishedAt && (
+          <p className="text-sm text-zinc-500">
+            Live article published {formatScheduleTime(spotlight.publishedAt)}
+          </p>
+        )}
+        {revision.status === "scheduled" && revision.publishAt && (
+          <p className="text-sm text-blue-300">Replaces the live article {formatScheduleTime(revision.publishAt)}</p>
+        )}
+        {revision.note && <p className="text-sm text-red-300 mt-2">{revision.note}</p>}
+      </div>
+
+      <section className="mb-12">
+        <h2 className="text-2xl font-bold mb-6">🔍 Changes</h2>
+        {!baseline && <p className="text-sm text-zinc-500 mb-4">First version of this spotlight.</p>}
+        <pre className="border border-zinc-800 rounded-xl p-4 text-sm overflow-x-auto whitespace-pre-wrap">
+          {diff.map((line, i) => (
+            <div key={i} className={DIFF_STYLES[line.type]}>
+              {DIFF_MARKS[line.type]} {line.text}
+            </div>
+          ))}
+        </pre>
+      </section>
+
+      {pending && (
+        <section className="mb-12 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <form action={approveRevision} className="border border-zinc-800 rounded-xl p-5 space-y-3">
+            <h2 className="font-semibold text-lg">✅ Approve</h2>
+            <input type="hidden" name="id" value={revision.id} />
+            <label className="block text-sm text-zinc-500">
+              Publish at, {SCHEDULE_TIMEZONE} time (leave empty for now)
+              <input
+                type="datetime-local"
+                name="publishAt"
+                className="mt-1 block w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-white"
+              />
+              <span className="block mt-1 text-xs">
+                Reaches the site within {SCHEDULE_GRANULARITY_MINUTES} minutes of this time
+              </span>
+            </label>
+            <button className="px-4 py-2 rounded-lg bg-green-600 hover:bg-green-500 text-sm font-medium transition">
+              Approve
+            </button>
+          </form>
+
+          <form action={rejectRevision} className="border border-zinc-800 rounded-xl p-5 space-y-3">
+            <h2 className="font-semibold text-lg">🚫 Reject</h2>
+            <input type="hidden" name="id" value={revision.id} />
+            <label className="block text-sm text-zinc-500">
+              Why
+              <input
+                type="text"
+                name="note"
+                className="mt-1 block w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-white"
+              />
+            </label>
+            <button className="px-4 py-2 rounded-lg bg-red-600 hover:bg-red-500 text-sm font-medium transition">
+              Reject
+            </button>
+          </form>
+
+          <form
+            action={editRevision}
+            className="md:col-span-2 border border-zinc-800 rounded-xl p-5 space-y-3"
+          >
+            <h2 className="font-semibold text-lg">✏️ Edit and approve</h2>
+            <input type="hidden" name="id" value={revision.id} />
+            <input
+              type="text"
+              name="title"
+              defaultValue={revision.title}
+              className="block w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2"
+            />
+            <textarea
+              name="content"
+              defaultValue={revision.content}
+              rows={24}
+              className="block w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 font-mono text-sm"
+            />
+            <label className="block text-sm text-zinc-500">
+              Publish at, {SCHEDULE_TIMEZONE} time (leave empty for now)
+              <input
+                type="datetime-local"
+                name="publishAt"
+                className="mt-1 block w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-white"
+              />
+              <span className="block mt-1 text-xs">
+                Reaches the site within {SCHEDULE_GRANULARITY_MINUTES} minutes of this time
+              </span>
+            </label>
+            <button className="px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-500 text-sm font-medium transition">
+              Save and approve
+            </button>
+          </form>
+        </section>
+      )}
+
+      <section>
+        <h2 className="text-2xl font-bold mb-6">🗂️ History</h2>
+        <div className="border border-zinc-800 rounded-xl divide-y divide-zinc-900">
+          {history.map((entry) => (
+            <div key={entry.id} className="px-4 py-3 flex items-center gap-3 text-sm">
+              <span
+                className={`text-xs px-2 py-0.5 rounded-full border ${REVISION_STATUS_STYLES[entry.status] || "border-zinc-700 text-zinc-400"}`}
+              >
+                {entry.status}
+              </span>
+              {entry.id === revision.id ? (
+                <span className="font-medium">{entry.source}</span>
+              ) : (
+                <Link href={`/admin/spotlights/${entry.id}`} className="hover:text-purple-400">
+                  {entry.source}
+                </Link>
+              )}
+              <span className="text-zinc-500">{format(entry.createdAt, "MMM d, yyyy 'at' HH:mm")}</span>
+              {entry.note && <span className="text-zinc-500 truncate">— {entry.note}</span>}
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use server";
+
+import { db } from "@/db";
+import { artistSpotlights, spotlightRevisions } from "@/db/schema";
+import { requireAdmin } from "@/lib/admin-auth";
+import { parseScheduleTime } from "@/lib/spotlights";
+import { and, eq, ne } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+
+type Revision = typeof spotlightRevisions.$inferSelect;
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+async function getPendingRevision(id: string) {
+  if (!UUID.test(id)) throw new Error(`Not a revision id: ${id}`);
+  const [revision] = await db
+    .select()
+    .from(spotlightRevisions)
+    .where(and(eq(spotlightRevisions.id, id), eq(spotlightRevisions.status, "pending")));
+  if (!revision) throw new Error("That revision was already reviewed");
+  return revision;
+}
+
+/**
+ * Closes a pending revision's review. The status is checked again in the
+ * update itself, so of two reviews submitted at once only one goes through.
+ */
+async function closeReview(revision: Revision, values: Partial<Revision>) {
+  const [closed] = await db
+    .update(spotlightRevisions)
+    .set({ ...values, reviewedAt: new Date() })
+    .where(and(eq(spotlightRevisions.id, revision.id), eq(spotlightRevisions.status, "pending")))
+    .returning({ id: spotlightRevisions.id });
+  if (!closed) throw new Error("That revision was already reviewed");
+}
+
+// An empty field publishes now; a date in the future schedules it
+function readPublishAt(formData: FormData): Date | null {
+  const value = String(formData.get("publishAt") || "");
+  if (!value) return null;
+  const date = parseScheduleTime(value);
+  if (!date) throw new Error(`Not a date: ${value}`);
+  return date;
+}
+
+/**
+ * Makes an approved revision the spotlight's article. An update to a live
+ * article with a future publishAt is stored as a scheduled revision, and
+ * publishDueRevisions swaps it in when the time comes; a scheduled update
+ * still waiting is superseded by whatever is approved after it.
+ */
+async function publish(revision: Revision, publishAt: Date | null) {
+  const [spotlight] = await db
+    .select({ status: artistSpotlights.status, publishedAt: artistSpotlights.publishedAt })
+    .from(artistSpotlights)
+    .where(eq(artistSpotlights.id, revision.spotlightId));
+  const now = new Date();
+
+  await db
+    .update(spotlightRevisions)
+    .set({ status: "superseded" })
+    .where(
+      and(
+        eq(spotlightRevisions.spotlightId, revision.spotlightId),
+        eq(spotlightRevisions.status, "scheduled"),
+        ne(spotlightRevisions.id, revision.id)
+      )
+    );
+
+  const live = spotlight?.status === "published" && (!spotlight.publishedAt || spotlight.publishedAt <= now);
+  if (live && publishAt && publishAt > now) {
+    await db
+      .update(spotlightRevisions)
+      .set({ status: "scheduled", publishAt })
+      .where(eq(spotlightRevisions.id, revision.id));
+    revalidatePath("/admin/spotlights");
+    return;
+  }
+
+  await db
+    .update(artistSpotlights)
+    .set({
+      title: revision.title,
+      content: revision.content,
+      articleSource: revision.source,
+      status: "published",
+      // An update to a live article keeps its original date unless one is given
+      publishedAt:
+        publishAt ?? (spotlight?.status === "published" && spotlight.publishedAt ? spotlight.publishedAt : now),
+      updatedAt: now,
+    })
+    .where(eq(artistSpotlights.id, revision.spotlightId));
+
+  revalidatePath("/");
+  revalidatePath("/admin/spotlights");
+}
+
+export async function approveRevision(formData: FormData) {
+  await requireAdmin();
+  const revision = await getPendingRevision(String(formData.get("id")));
+  const publishAt = readPublishAt(formData);
+
+  await closeReview(revision, { status: "approved" });
+  await publish(revision, publishAt);
+  redirect("/admin/spotlights");
+}
+
+export async function rejectRevision(formData: FormData) {
+  await requireAdmin();
+  const revision = await getPendingRevision(String(formData.get("id")));
+
+  await closeReview(revision, {
+    status: "rejected",
+    note: String(formData.get("note") || "") || null,
+  });
+  revalidatePath("/admin/spotlights");
+  redirect("/admin/spotlights");
+}
+
+/** Saves the editor's version as its own approved revision and publishes it. */
+export async function editRevision(formData: FormData) {
+  await requireAdmin();
+  const revision = await getPendingRevision(String(formData.get("id")));
+  const title = String(formData.get("title") || "").trim();
+  const content = String(formData.get("content") || "").replace(/\r\n/g, "\n").trim();
+  if (!title || !content) throw new Error("Title and content can't be empty");
+  const publishAt = readPublishAt(formData);
+  const now = new Date();
+
+  await closeReview(revision, { status: "superseded" });
+  const [edited] = await db
+    .insert(spotlightRevisions)
+    .values({
+      spotlightId: revision.spotlightId,
+      title,
+      content,
+      source: "editor",
+      status: "approved",
+      reviewedAt: now,
+    })
+    .returning();
+  await publish(edited, publishAt);
+  redirect("/admin/spotlights");
+}
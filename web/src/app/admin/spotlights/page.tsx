@@ -0,0 +1,154 @@
+import { db } from "@/db";
+import { artists, artistSpotlights, spotlightRevisions } from "@/db/schema";
+import { and, desc, eq, gt } from "drizzle-orm";
+import { formatDistanceToNow } from "date-fns";
+import Link from "next/link";
+import type { Metadata } from "next";
+import {
+  formatScheduleTime,
+  publishDueRevisions,
+  SCHEDULE_GRANULARITY_MINUTES,
+} from "@/lib/spotlights";
+
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Spotlight Review | Festival Pulse",
+  robots: { index: false },
+};
+
+async function getPendingRevisions() {
+  return db
+    .select({
+      id: spotlightRevisions.id,
+      title: spotlightRevisions.title,
+      source: spotlightRevisions.source,
+      createdAt: spotlightRevisions.createdAt,
+      spotlightStatus: artistSpotlights.status,
+      artistName: artists.name,
+    })
+    .from(spotlightRevisions)
+    .innerJoin(artistSpotlights, eq(spotlightRevisions.spotlightId, artistSpotlights.id))
+    .innerJoin(artists, eq(artistSpotlights.artistId, artists.id))
+    .where(eq(spotlightRevisions.status, "pending"))
+    .orderBy(desc(spotlightRevisions.createdAt));
+}
+
+// New spotlights with a future publish date, and updates waiting to replace a live one
+async function getScheduled() {
+  const [spotlights, updates] = await Promise.all([
+    db
+      .select({
+        id: artistSpotlights.id,
+        title: artistSpotlights.title,
+        publishAt: artistSpotlights.publishedAt,
+        artistName: artists.name,
+        artistSlug: artists.slug,
+      })
+      .from(artistSpotlights)
+      .innerJoin(artists, eq(artistSpotlights.artistId, artists.id))
+      .where(
+        and(eq(artistSpotlights.status, "published"), gt(artistSpotlights.publishedAt, new Date()))
+      ),
+    db
+      .select({
+        id: spotlightRevisions.id,
+        title: spotlightRevisions.title,
+        publishAt: spotlightRevisions.publishAt,
+        artistName: artists.name,
+      })
+      .from(spotlightRevisions)
+      .innerJoin(artistSpotlights, eq(spotlightRevisions.spotlightId, artistSpotlights.id))
+      .innerJoin(artists, eq(artistSpotlights.artistId, artists.id))
+      .where(eq(spotlightRevisions.status, "scheduled")),
+  ]);
+
+  return [
+    ...spotlights.map((s) => ({ ...s, href: `/artists/${s.artistSlug}`, kind: "New" })),
+    ...updates.map((r) => ({ ...r, href: `/admin/spotlights/${r.id}`, kind: "Update" })),
+  ].sort((a, b) => (a.publishAt?.getTime() ?? 0) - (b.publishAt?.getTime() ?? 0));
+}
+
+export default async function SpotlightReviewPage() {
+  await publishDueRevisions();
+  const [pending, scheduled] = await Promise.all([getPendingRevisions(), getScheduled()]);
+
+  return (
+    <div>
+      <div className="mb-10">
+        <h1 className="text-4xl font-bold mb-2">Spotlight Review</h1>
+        <p className="text-zinc-500">
+          {pending.length} drafts waiting · {scheduled.length} scheduled
+        </p>
+      </div>
+
+      <section className="mb-12">
+        <h2 className="text-2xl font-bold mb-6">📝 Waiting for review</h2>
+        {pending.length === 0 ? (
+          <p className="text-zinc-500">Nothing to review.</p>
+        ) : (
+          <div className="overflow-x-auto border border-zinc-800 rounded-xl">
+            <table className="w-full text-sm">
+              <thead className="text-left text-zinc-500 border-b border-zinc-800">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Artist</th>
+                  <th className="px-4 py-3 font-medium">Title</th>
+                  <th className="px-4 py-3 font-medium">Source</th>
+                  <th className="px-4 py-3 font-medium">Kind</th>
+                  <th className="px-4 py-3 font-medium">Written</th>
+                </tr>
+              </thead>
+              <tbody>
+                {pending.map((revision) => (
+                  <tr key={revision.id} className="border-b border-zinc-900 hover:bg-zinc-900/50">
+                    <td className="px-4 py-3">
+                      <Link href={`/admin/spotlights/${revision.id}`} className="hover:text-purple-400">
+                        {revision.artistName}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-3 text-zinc-400">{revision.title}</td>
+                    <td className="px-4 py-3 text-zinc-400">{revision.source}</td>
+                    <td className="px-4 py-3 text-zinc-400">
+                      {revision.spotlightStatus === "published" ? "Update" : "New"}
+                    </td>
+                    <td className="px-4 py-3 text-zinc-400 whitespace-nowrap">
+                      {formatDistanceToNow(revision.createdAt, { addSuffix: true })}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section>
+        <h2 className="text-2xl font-bold mb-2">🗓️ Scheduled</h2>
+        <p className="text-sm text-zinc-500 mb-6">
+          Each goes live on the site within {SCHEDULE_GRANULARITY_MINUTES} minutes of its time.
+        </p>
+        {scheduled.length === 0 ? (
+          <p className="text-zinc-500">No spotlights scheduled.</p>
+        ) : (
+          <div className="border border-zinc-800 rounded-xl divide-y divide-zinc-900">
+            {scheduled.map((entry) => (
+              <div key={entry.id} className="px-4 py-3 flex justify-between gap-4 text-sm">
+                <span>
+                  <Link href={entry.href} className="hover:text-purple-400">
+                    {entry.title || entry.artistName}
+                  </Link>
+                  <span className="text-zinc-500"> · {entry.kind}</span>
+                </span>
+                {entry.publishAt && (
+                  <span className="text-zinc-400 whitespace-nowrap">
+                    {formatScheduleTime(entry.publishAt)}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { format } from "date-fns";
 import { notFound } from "next/navigation";
 import Link from "next/link";
 import type { Metadata } from "next";
+import { clipEmbed } from "@/lib/clips";
 
 export const revalidate = 3600;
 
@@ -69,7 +70,8 @@ export default async function ArtistDetailPage({
     .from(artistSpotlights)
     .where(eq(artistSpotlights.artistId, artist.id))
     .limit(1);
-  const videoClips = (spotlights[0]?.videoClips as { sourceUrl: string; startSec: number; endSec: number; title: string }[]) || [];
+  const videoClips = spotlights[0]?.videoClips || [];
+  const reelUrl = spotlights[0]?.videoReelUrl;
 
   const links = [
     { label: "Resident Advisor", url: artist.raUrl, icon: "🔊" },
@@ -131,6 +133,23 @@ export default async function ArtistDetailPage({
         </div>
       )}
 
+      {/* Reel */}
+      {reelUrl && (
+        <div className="mb-8">
+          <h2 className="text-lg font-semibold mb-3 text-zinc-300">Reel</h2>
+          <div className="aspect-video max-w-3xl border border-zinc-800 rounded-xl overflow-hidden bg-zinc-900/50">
+            <video
+              src={reelUrl}
+              poster={spotlights[0].videoReelPosterUrl ?? undefined}
+              controls
+              playsInline
+              preload="none"
+              className="w-full h-full"
+            />
+          </div>
+        </div>
+      )}
+
       {/* Featured Sets */}
       {videoClips.length > 0 && (
         <div className="mb-8">
@@ -139,16 +158,16 @@ export default async function ArtistDetailPage({
           </h2>
           <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
             {videoClips.map((clip, i) => {
-              const videoId = clip.sourceUrl.split("v=")[1]?.split("&")[0];
-              if (!videoId) return null;
+              const embed = clipEmbed(clip);
+              if (!embed) return null;
               return (
                 <div
                   key={i}
                   className="border border-zinc-800 rounded-xl overflow-hidden bg-zinc-900/50"
                 >
-                  <div className="aspect-video">
+                  <div className={embed.audio ? "h-[120px]" : "aspect-video"}>
                     <iframe
-                      src={`https://www.youtube.com/embed/${videoId}?start=${clip.startSec}&autoplay=0`}
+                      src={embed.src}
                       title={clip.title}
                       allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
                       allowFullScreen
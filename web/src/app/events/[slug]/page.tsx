@@ -5,6 +5,7 @@ import { format } from "date-fns";
 import { notFound } from "next/navigation";
 import Link from "next/link";
 import type { Metadata } from "next";
+import { EVENT_TYPE_LABELS, eventTypeOf, isFestival } from "@/lib/events";
 
 export const revalidate = 3600;
 
@@ -21,6 +22,8 @@ async function getEvent(slug: string) {
       ticketUrl: festivals.ticketUrl,
       imageUrl: festivals.imageUrl,
       status: festivals.status,
+      eventType: festivals.eventType,
+      missedSyncs: festivals.missedSyncs,
       venueName: venues.name,
       venueCity: venues.city,
       venueCountry: venues.country,
@@ -85,8 +88,36 @@ export default async function EventDetailPage({
         ← All Events
       </Link>
 
+      {event.status === "cancelled" ? (
+        <div className="mt-6 border border-red-800/60 bg-red-950/40 text-red-200 rounded-xl px-5 py-4">
+          <p className="font-semibold">❌ This event has been cancelled</p>
+          <p className="text-sm text-red-300/80 mt-1">
+            It is no longer listed by its organizer. Check with the promoter
+            before making plans.
+          </p>
+        </div>
+      ) : (event.missedSyncs ?? 0) > 0 ? (
+        <div className="mt-6 border border-amber-800/60 bg-amber-950/30 text-amber-200 rounded-xl px-5 py-4 text-sm">
+          ⚠️ This event recently disappeared from its listing and may have
+          been cancelled.
+        </div>
+      ) : null}
+
       <div className="mt-6 mb-8">
-        <h1 className="text-4xl font-bold">{event.name}</h1>
+        <span
+          className={`inline-block mb-3 text-xs uppercase tracking-wider px-3 py-1 rounded-full border ${
+            isFestival(event)
+              ? "bg-purple-900/40 text-purple-300 border-purple-800/50"
+              : "bg-zinc-900 text-zinc-400 border-zinc-700"
+          }`}
+        >
+          {EVENT_TYPE_LABELS[eventTypeOf(event)]}
+        </span>
+        <h1
+          className={`text-4xl font-bold ${event.status === "cancelled" ? "line-through text-zinc-500" : ""}`}
+        >
+          {event.name}
+        </h1>
 
         <div className="mt-4 space-y-2 text-zinc-400">
           {event.startDate && (
@@ -116,7 +147,7 @@ export default async function EventDetailPage({
 
         {/* Action links */}
         <div className="flex flex-wrap gap-3 mt-6">
-          {event.ticketUrl && (
+          {event.ticketUrl && event.status !== "cancelled" && (
             <a
               href={event.ticketUrl}
               target="_blank"
@@ -6,11 +6,14 @@ import {
   artists,
   artistSpotlights,
 } from "@/db/schema";
-import { eq, gte, lte, asc, desc, and, sql, count } from "drizzle-orm";
+import { eq, gte, lte, asc, desc, and, or, sql, count } from "drizzle-orm";
 import { format } from "date-fns";
 import Link from "next/link";
+import { EVENT_TYPE_LABELS, eventTypeOf, isFestival } from "@/lib/events";
+import { isLive, publishDueRevisions } from "@/lib/spotlights";
 
-export const revalidate = 3600;
+// Short enough for scheduled spotlights to go out on time (SCHEDULE_GRANULARITY_MINUTES)
+export const revalidate = 300;
 
 async function getUpcomingEvents() {
   const today = new Date().toISOString().split("T")[0];
@@ -25,12 +28,14 @@ async function getUpcomingEvents() {
       imageUrl: festivals.imageUrl,
       websiteUrl: festivals.websiteUrl,
       status: festivals.status,
+      eventType: festivals.eventType,
       venueName: venues.name,
       venueCity: venues.city,
     })
     .from(festivals)
     .leftJoin(venues, eq(festivals.venueId, venues.id))
-    .where(gte(festivals.startDate, today))
+    // Multi-day festivals stay listed until their last day
+    .where(or(gte(festivals.startDate, today), gte(festivals.endDate, today)))
     .orderBy(asc(festivals.startDate));
 
   const eventsWithArtists = await Promise.all(
@@ -48,6 +53,8 @@ async function getUpcomingEvents() {
 }
 
 async function getFeaturedArtists() {
+  await publishDueRevisions();
+
   // Get artists with spotlights that have real content
   const results = await db
     .select({
@@ -60,7 +67,7 @@ async function getFeaturedArtists() {
     })
     .from(artistSpotlights)
     .innerJoin(artists, eq(artistSpotlights.artistId, artists.id))
-    .where(eq(artistSpotlights.status, "published"))
+    .where(isLive())
     .limit(6);
 
   return results;
@@ -93,11 +100,23 @@ function EventCard({
             href={`/events/${event.slug}`}
             className="text-lg font-semibold hover:text-purple-400 transition truncate block"
           >
-            {event.name}
+            {event.status === "cancelled" ? (
+              <>
+                <span className="text-xs font-medium text-red-300 bg-red-950/60 border border-red-800/50 px-2 py-0.5 rounded-full mr-2 align-middle">
+                  Cancelled
+                </span>
+                <span className="line-through text-zinc-500">{event.name}</span>
+              </>
+            ) : (
+              event.name
+            )}
           </Link>
           <p className="text-zinc-500 text-sm mt-0.5">
             📍 {event.venueName || "TBA"}
             {event.venueCity ? `, ${event.venueCity}` : ""}
+            <span className="ml-2 text-[10px] uppercase tracking-wider text-zinc-600">
+              {EVENT_TYPE_LABELS[eventTypeOf(event)]}
+            </span>
           </p>
           {!compact && event.artists.length > 0 && (
             <div className="flex flex-wrap gap-1.5 mt-2">
@@ -139,9 +158,16 @@ export default async function Home() {
     return d >= todayStr && d <= weekStr;
   });
 
-  const envision = events.find((e) =>
-    e.name.toLowerCase().includes("envision")
-  );
+  const festivalEvents = events.filter(isFestival);
+  const otherEvents = events.filter((e) => !isFestival(e));
+
+  // Biggest lineup gets the spotlight
+  const featured = festivalEvents
+    .filter((e) => e.status !== "cancelled")
+    .reduce<(typeof events)[0] | undefined>(
+      (best, e) => (!best || e.artists.length > best.artists.length ? e : best),
+      undefined
+    );
 
   return (
     <div>
@@ -174,41 +200,42 @@ export default async function Home() {
         </section>
       )}
 
-      {/* Featured Festival — Envision */}
-      {envision && (
+      {/* Featured Festival */}
+      {featured && (
         <section className="mb-12">
           <h2 className="text-2xl font-bold mb-4">⭐ Featured Festival</h2>
           <div className="border border-purple-800/50 bg-gradient-to-r from-purple-950/40 to-zinc-900/60 rounded-2xl p-6">
             <div className="flex flex-col md:flex-row gap-6">
               <div className="flex-1">
                 <Link
-                  href={`/events/${envision.slug}`}
+                  href={`/events/${featured.slug}`}
                   className="text-2xl font-bold text-purple-300 hover:text-purple-200 transition"
                 >
-                  {envision.name}
+                  {featured.name}
                 </Link>
                 <p className="text-zinc-400 mt-2">
                   📅{" "}
-                  {envision.startDate
+                  {featured.startDate
                     ? format(
-                        new Date(envision.startDate + "T12:00:00"),
+                        new Date(featured.startDate + "T12:00:00"),
                         "MMMM d, yyyy"
                       )
                     : "TBA"}
-                  {envision.endDate && envision.endDate !== envision.startDate
-                    ? ` — ${format(new Date(envision.endDate + "T12:00:00"), "MMMM d, yyyy")}`
+                  {featured.endDate && featured.endDate !== featured.startDate
+                    ? ` — ${format(new Date(featured.endDate + "T12:00:00"), "MMMM d, yyyy")}`
                     : ""}
                 </p>
                 <p className="text-zinc-500 text-sm mt-1">
-                  📍 {envision.venueName || "Uvita, Costa Rica"}
+                  📍 {featured.venueName || "TBA"}
+                  {featured.venueCity ? `, ${featured.venueCity}` : ""}
                 </p>
-                {envision.artists.length > 0 && (
+                {featured.artists.length > 0 && (
                   <div className="mt-4">
                     <p className="text-xs text-zinc-500 uppercase tracking-wider mb-2">
-                      Lineup ({envision.artists.length} artists)
+                      Lineup ({featured.artists.length} artists)
                     </p>
                     <div className="flex flex-wrap gap-2">
-                      {envision.artists.map((a) => (
+                      {featured.artists.map((a) => (
                         <Link
                           key={a.slug}
                           href={`/artists/${a.slug}`}
@@ -220,9 +247,9 @@ export default async function Home() {
                     </div>
                   </div>
                 )}
-                {envision.websiteUrl && (
+                {featured.websiteUrl && (
                   <a
-                    href={envision.websiteUrl}
+                    href={featured.websiteUrl}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="inline-block mt-4 text-sm text-purple-400 hover:text-purple-300 transition"
@@ -272,11 +299,23 @@ export default async function Home() {
         </section>
       )}
 
-      {/* All Upcoming Events */}
+      {/* Festivals */}
+      {festivalEvents.length > 0 && (
+        <section className="mb-12">
+          <h2 className="text-2xl font-bold mb-4">🎪 Festivals</h2>
+          <div className="grid gap-4">
+            {festivalEvents.map((event) => (
+              <EventCard key={event.id} event={event} />
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Club Nights, Concerts & Day Parties */}
       <section>
-        <h2 className="text-2xl font-bold mb-4">📅 All Upcoming Events</h2>
+        <h2 className="text-2xl font-bold mb-4">🌙 Club Nights & Parties</h2>
         <div className="grid gap-4">
-          {events.map((event) => (
+          {otherEvents.map((event) => (
             <EventCard key={event.id} event={event} />
           ))}
           {events.length === 0 && (
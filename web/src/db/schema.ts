@@ -6,6 +6,8 @@ import {
   timestamp,
   date,
   integer,
+  real,
+  doublePrecision,
   boolean,
   jsonb,
   uniqueIndex,
@@ -18,13 +20,33 @@ export const venues = pgTable("venues", {
   city: varchar("city", { length: 255 }),
   country: varchar("country", { length: 100 }),
   address: text("address"),
-  latitude: text("latitude"),
-  longitude: text("longitude"),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
   imageUrl: text("image_url"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// ─── Venue External IDs (RA, Shotgun, DICE...) ──────
+export const venueExternalIds = pgTable(
+  "venue_external_ids",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    venueId: uuid("venue_id")
+      .references(() => venues.id, { onDelete: "cascade" })
+      .notNull(),
+    source: varchar("source", { length: 50 }).notNull(), // ra, shotgun, dice
+    externalId: varchar("external_id", { length: 255 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueExternalId: uniqueIndex("unique_venue_external_id").on(
+      table.source,
+      table.externalId
+    ),
+  })
+);
+
 // ─── Artists ──────────────────────────────────────────
 export const artists = pgTable("artists", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -43,6 +65,27 @@ export const artists = pgTable("artists", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// ─── Artist External IDs (RA, Shotgun, DICE...) ─────
+export const artistExternalIds = pgTable(
+  "artist_external_ids",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    artistId: uuid("artist_id")
+      .references(() => artists.id, { onDelete: "cascade" })
+      .notNull(),
+    source: varchar("source", { length: 50 }).notNull(), // ra, shotgun, dice
+    externalId: varchar("external_id", { length: 255 }).notNull(),
+    url: text("url"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueExternalId: uniqueIndex("unique_artist_external_id").on(
+      table.source,
+      table.externalId
+    ),
+  })
+);
+
 // ─── Festivals ────────────────────────────────────────
 export const festivals = pgTable("festivals", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -56,6 +99,10 @@ export const festivals = pgTable("festivals", {
   ticketUrl: text("ticket_url"),
   imageUrl: text("image_url"),
   status: varchar("status", { length: 50 }).default("upcoming"), // upcoming, ongoing, past, cancelled
+  eventType: varchar("event_type", { length: 50 }), // festival, club_night, concert, day_party
+  sourceId: uuid("source_id").references(() => scrapeSources.id), // scrape source that last saw it
+  lastSeenAt: timestamp("last_seen_at"),
+  missedSyncs: integer("missed_syncs").default(0), // consecutive syncs it was absent from
   metadata: jsonb("metadata").default({}),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -77,6 +124,7 @@ export const festivalLineups = pgTable(
     startTime: varchar("start_time", { length: 10 }), // "23:00"
     endTime: varchar("end_time", { length: 10 }),
     isHeadliner: boolean("is_headliner").default(false),
+    source: varchar("source", { length: 50 }), // ra, shotgun, dice, or curation; null on older rows
     announcedAt: timestamp("announced_at").defaultNow(),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
@@ -88,6 +136,32 @@ export const festivalLineups = pgTable(
   })
 );
 
+// ─── Duplicate Candidates (dedup review queue) ──────
+export const duplicateCandidates = pgTable(
+  "duplicate_candidates",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    // Nulled rather than cascaded so merge decisions outlive the merged row
+    festivalId: uuid("festival_id").references(() => festivals.id, {
+      onDelete: "set null",
+    }),
+    duplicateOfId: uuid("duplicate_of_id").references(() => festivals.id, {
+      onDelete: "set null",
+    }),
+    score: real("score").notNull(),
+    reasons: jsonb("reasons").default({}),
+    status: varchar("status", { length: 50 }).default("pending"), // pending, merged, rejected
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    reviewedAt: timestamp("reviewed_at"),
+  },
+  (table) => ({
+    uniquePair: uniqueIndex("unique_duplicate_pair").on(
+      table.festivalId,
+      table.duplicateOfId
+    ),
+  })
+);
+
 // ─── Scrape Sources ───────────────────────────────────
 export const scrapeSources = pgTable("scrape_sources", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -96,22 +170,59 @@ export const scrapeSources = pgTable("scrape_sources", {
   url: text("url").notNull(),
   config: jsonb("config").default({}),
   enabled: boolean("enabled").default(true),
+  intervalMinutes: integer("interval_minutes").default(720), // scheduler cadence, 2x daily by default
   lastScrapedAt: timestamp("last_scraped_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 // ─── Scrape Logs ──────────────────────────────────────
+// One entry in scrape_logs.errors; rows from before this shape hold plain strings
+export interface ScrapeError {
+  source: string; // source type ("ra", "shotgun") or script name
+  stage: "config" | "fetch" | "upsert" | "lifecycle";
+  entity: string | null; // event title, page... null when the whole run failed
+  message: string;
+}
+
 export const scrapeLogs = pgTable("scrape_logs", {
   id: uuid("id").defaultRandom().primaryKey(),
   sourceId: uuid("source_id").references(() => scrapeSources.id),
+  job: varchar("job", { length: 100 }), // sync, rescrape-ra
   status: varchar("status", { length: 50 }).notNull(), // success, error, partial
   festivalsFound: integer("festivals_found").default(0),
+  eventsCreated: integer("events_created").default(0),
+  eventsUpdated: integer("events_updated").default(0),
   artistsFound: integer("artists_found").default(0),
-  errors: jsonb("errors").default([]),
+  errors: jsonb("errors").$type<(ScrapeError | string)[]>().default([]),
+  errorCount: integer("error_count").default(0), // errors is capped, this isn't
   duration: integer("duration_ms"),
   scrapedAt: timestamp("scraped_at").defaultNow().notNull(),
 });
 
+// ─── Job Runs (scheduler) ─────────────────────────────
+export const jobRuns = pgTable("job_runs", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  job: varchar("job", { length: 255 }).notNull(), // "sync:<sourceId>", "lifecycle", "articles"...
+  sourceId: uuid("source_id").references(() => scrapeSources.id),
+  status: varchar("status", { length: 50 }).notNull(), // running, success, error
+  trigger: varchar("trigger", { length: 50 }).default("schedule"), // schedule, retry, catch-up
+  attempt: integer("attempt").default(1),
+  exitCode: integer("exit_code"),
+  error: text("error"),
+  logTail: text("log_tail"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+});
+
+// ─── Job Locks (one run per job across processes) ────
+export const jobLocks = pgTable("job_locks", {
+  job: varchar("job", { length: 255 }).primaryKey(),
+  runId: uuid("run_id"),
+  holder: varchar("holder", { length: 255 }).notNull(), // host:pid
+  lockedUntil: timestamp("locked_until").notNull(), // lease, renewed while the job runs
+  acquiredAt: timestamp("acquired_at").defaultNow().notNull(),
+});
+
 // ─── Artist Spotlights (generated content) ────────────
 export const artistSpotlights = pgTable("artist_spotlights", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -122,15 +233,55 @@ export const artistSpotlights = pgTable("artist_spotlights", {
   title: varchar("title", { length: 500 }).notNull(),
   slug: varchar("slug", { length: 255 }).notNull().unique(),
   content: text("content").notNull(),          // markdown article
-  videoReelUrl: text("video_reel_url"),         // compiled reel
+  articleSource: varchar("article_source", { length: 50 }), // template, or the text provider that wrote it
+  videoReelUrl: text("video_reel_url"),         // compiled reel, 16:9 for the site
+  videoReelPosterUrl: text("video_reel_poster_url"),
+  videoReels: jsonb("video_reels").$type<{
+    format: string;              // 9:16, 1:1, 16:9
+    url: string;
+    posterUrl: string | null;
+  }[]>().default([]),
+  reelClips: jsonb("reel_clips").$type<{
+    provider: string;            // what the reel was cut from
+    sourceUrl: string;
+    title: string;
+    startSec: number;
+    endSec: number;
+  }[]>().default([]),
+  reelBuiltAt: timestamp("reel_built_at"),
   videoClips: jsonb("video_clips").$type<{
+    provider?: string;           // youtube, soundcloud, mixcloud; missing = youtube
     sourceUrl: string;
     startSec: number;
     endSec: number;
     title: string;
+    channel?: string | null;
+    durationSec?: number | null;
+    uploadDate?: string | null;
+    score?: number;              // relevance, see scraper/src/clip-relevance.ts
+    pinned?: boolean;            // chosen by an editor in curation/clips.json
+    highlightScore?: number;     // startSec/endSec were picked by highlight detection
   }[]>().default([]),
   status: varchar("status", { length: 50 }).default("draft"), // draft, published
-  publishedAt: timestamp("published_at"),
+  publishedAt: timestamp("published_at"), // in the future: scheduled, not live yet
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
+
+// ─── Spotlight Revisions (editorial review) ──────────
+// Generated articles land here for review; approving one copies it onto
+// the spotlight, whose content is always the last approved revision.
+export const spotlightRevisions = pgTable("spotlight_revisions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  spotlightId: uuid("spotlight_id")
+    .references(() => artistSpotlights.id, { onDelete: "cascade" })
+    .notNull(),
+  title: varchar("title", { length: 500 }).notNull(),
+  content: text("content").notNull(),
+  source: varchar("source", { length: 50 }).notNull(), // template, a text provider, or editor
+  status: varchar("status", { length: 50 }).default("pending").notNull(), // pending, scheduled, approved, rejected, superseded
+  note: text("note"), // why it was rejected
+  publishAt: timestamp("publish_at"), // when a scheduled update replaces the live article
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  reviewedAt: timestamp("reviewed_at"),
+});
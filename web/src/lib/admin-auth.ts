@@ -0,0 +1,25 @@
+import { headers } from "next/headers";
+
+// Basic auth against ADMIN_USER (default "admin") and ADMIN_PASSWORD; never passes without a password
+export function hasAdminCredentials(authorization: string | null): boolean {
+  const password = process.env.ADMIN_PASSWORD;
+  if (!password) return false;
+
+  const [scheme, encoded] = (authorization || "").split(" ");
+  if (scheme !== "Basic" || !encoded) return false;
+  const decoded = atob(encoded);
+  const sep = decoded.indexOf(":");
+  const user = decoded.slice(0, sep);
+  const pass = decoded.slice(sep + 1);
+  return sep > 0 && user === (process.env.ADMIN_USER || "admin") && pass === password;
+}
+
+/**
+ * For server actions: they're reachable by a POST to any page, so the
+ * proxy's check on /admin doesn't cover them.
+ */
+export async function requireAdmin() {
+  if (!hasAdminCredentials((await headers()).get("authorization"))) {
+    throw new Error("Admin credentials required");
+  }
+}
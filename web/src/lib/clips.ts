@@ -0,0 +1,39 @@
+type Clip = {
+  provider?: string;
+  sourceUrl: string;
+  startSec: number;
+};
+
+export type ClipEmbed = {
+  src: string;
+  audio: boolean; // a player bar rather than a 16:9 frame
+};
+
+// Clips stored before there were other providers are all YouTube
+export function clipEmbed(clip: Clip): ClipEmbed | null {
+  const url = encodeURIComponent(clip.sourceUrl);
+  switch (clip.provider ?? "youtube") {
+    case "youtube": {
+      const videoId = clip.sourceUrl.split("v=")[1]?.split("&")[0];
+      if (!videoId) return null;
+      return {
+        src: `https://www.youtube.com/embed/${videoId}?start=${clip.startSec}&autoplay=0`,
+        audio: false,
+      };
+    }
+    case "soundcloud":
+      return {
+        src: `https://w.soundcloud.com/player/?url=${url}&auto_play=false&visual=false`,
+        audio: true,
+      };
+    case "mixcloud": {
+      const feed = encodeURIComponent(new URL(clip.sourceUrl).pathname);
+      return {
+        src: `https://player-widget.mixcloud.com/widget/iframe/?hide_cover=1&feed=${feed}`,
+        audio: true,
+      };
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,25 @@
+export const EVENT_TYPE_LABELS: Record<string, string> = {
+  festival: "Festival",
+  club_night: "Club Night",
+  concert: "Concert",
+  day_party: "Day Party",
+};
+
+type TypedEvent = {
+  eventType: string | null;
+  startDate: string | null;
+  endDate: string | null;
+};
+
+// Rows synced before classification existed have no type yet
+export function eventTypeOf(event: TypedEvent): string {
+  if (event.eventType) return event.eventType;
+  if (event.startDate && event.endDate && event.endDate > event.startDate) {
+    return "festival";
+  }
+  return "club_night";
+}
+
+export function isFestival(event: TypedEvent): boolean {
+  return eventTypeOf(event) === "festival";
+}
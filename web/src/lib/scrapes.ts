@@ -0,0 +1,27 @@
+import type { ScrapeError } from "@/db/schema";
+
+export const RUN_STATUS_STYLES: Record<string, string> = {
+  success: "bg-green-500/10 text-green-400 border-green-500/30",
+  partial: "bg-amber-500/10 text-amber-400 border-amber-500/30",
+  error: "bg-red-500/10 text-red-400 border-red-500/30",
+};
+
+export const RUN_STATUS_DOTS: Record<string, string> = {
+  success: "bg-green-500",
+  partial: "bg-amber-500",
+  error: "bg-red-500",
+};
+
+// Logs written before errors were structured hold plain strings
+export function toScrapeErrors(errors: (ScrapeError | string)[] | null): ScrapeError[] {
+  return (errors || []).map((e) =>
+    typeof e === "string" ? { source: "unknown", stage: "fetch", entity: null, message: e } : e
+  );
+}
+
+export function formatDuration(ms: number | null): string {
+  if (ms === null) return "—";
+  if (ms < 1000) return `${ms}ms`;
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
@@ -0,0 +1,90 @@
+import { db } from "@/db";
+import { and, eq, isNull, lte, or } from "drizzle-orm";
+import { artistSpotlights, spotlightRevisions } from "@/db/schema";
+
+export const REVISION_STATUS_STYLES: Record<string, string> = {
+  pending: "bg-amber-500/10 text-amber-400 border-amber-500/30",
+  scheduled: "bg-blue-500/10 text-blue-400 border-blue-500/30",
+  approved: "bg-green-500/10 text-green-400 border-green-500/30",
+  rejected: "bg-red-500/10 text-red-400 border-red-500/30",
+  superseded: "border-zinc-700 text-zinc-500",
+};
+
+// Published and past its publish time; a future publishedAt is a scheduled post
+export function isLive() {
+  return and(
+    eq(artistSpotlights.status, "published"),
+    or(isNull(artistSpotlights.publishedAt), lte(artistSpotlights.publishedAt, new Date()))
+  );
+}
+
+/**
+ * Puts scheduled updates whose time has come on their spotlights. An
+ * update to a live article waits as a "scheduled" revision rather than in
+ * the spotlight row, so readers keep the old version until then; run this
+ * before reading spotlights.
+ */
+export async function publishDueRevisions() {
+  const due = await db
+    .update(spotlightRevisions)
+    .set({ status: "approved" })
+    .where(and(eq(spotlightRevisions.status, "scheduled"), lte(spotlightRevisions.publishAt, new Date())))
+    .returning();
+
+  for (const revision of due) {
+    await db
+      .update(artistSpotlights)
+      .set({
+        title: revision.title,
+        content: revision.content,
+        articleSource: revision.source,
+        updatedAt: new Date(),
+      })
+      .where(eq(artistSpotlights.id, revision.spotlightId));
+  }
+}
+
+// How late a scheduled spotlight can reach the home page: it's rebuilt this often
+export const SCHEDULE_GRANULARITY_MINUTES = 5;
+
+// Schedule times are entered and shown in the festivals' timezone, not the server's
+export const SCHEDULE_TIMEZONE = process.env.DEFAULT_TIMEZONE || "America/Costa_Rica";
+
+// How far the timezone's wall clock is ahead of UTC at a given moment, in ms
+function zoneOffset(date: Date): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: SCHEDULE_TIMEZONE,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    })
+      .formatToParts(date)
+      .map((p) => [p.type, Number(p.value)])
+  );
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wall - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/** Reads a datetime-local value ("2026-03-01T20:00") as SCHEDULE_TIMEZONE wall time. */
+export function parseScheduleTime(value: string): Date | null {
+  const m = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/);
+  if (!m) return null;
+  const asUtc = Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +(m[6] || 0));
+  // Correct by the offset, then again in case that crossed a DST change
+  const guess = asUtc - zoneOffset(new Date(asUtc));
+  return new Date(asUtc - zoneOffset(new Date(guess)));
+}
+
+export function formatScheduleTime(date: Date): string {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone: SCHEDULE_TIMEZONE,
+    dateStyle: "medium",
+    timeStyle: "short",
+    hourCycle: "h23",
+  }).format(date);
+}
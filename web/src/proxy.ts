@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { hasAdminCredentials } from "@/lib/admin-auth";
+
+// Admin pages sit behind basic auth; with no ADMIN_PASSWORD set they're off
+export function proxy(request: NextRequest) {
+  if (!process.env.ADMIN_PASSWORD) return new NextResponse("Not Found", { status: 404 });
+
+  if (hasAdminCredentials(request.headers.get("authorization"))) {
+    return NextResponse.next();
+  }
+
+  return new NextResponse("Authentication required", {
+    status: 401,
+    headers: { "WWW-Authenticate": 'Basic realm="Festival Pulse admin"' },
+  });
+}
+
+export const config = {
+  matcher: ["/admin/:path*"],
+};